@@ -1,11 +1,27 @@
-import type { CampaignConfig, PortfolioState, EnrichedSignal, EdgeOpportunity, TradeOrder } from "./types/index.js";
+import type {
+  CampaignConfig,
+  PortfolioState,
+  EnrichedSignal,
+  EdgeOpportunity,
+  TradeOrder,
+  RawMention,
+} from "./types/index.js";
 import { TwitterClient } from "./ingestion/twitter.js";
+import type { SignalSource } from "./ingestion/source.js";
 import { SignalEnricher } from "./ingestion/enricher.js";
+import { LinkResolver } from "./ingestion/links.js";
+import { reviveMention } from "./ingestion/replay.js";
+import { partitionCommands, type MentionCommand } from "./ingestion/commands.js";
 import { TopicClusterer } from "./sensemaking/clustering.js";
 import { EdgeScorer } from "./sensemaking/edge-scorer.js";
+import { MarketCatalog } from "./sensemaking/catalog.js";
+import { gammaApi, type PolymarketApi } from "./sensemaking/polymarket.js";
+import { dedupeSignals } from "./sensemaking/dedup.js";
+import { corroborateSignals } from "./sensemaking/corroboration.js";
 import { SanityChecker } from "./strategy/sanity-check.js";
-import { TradeExecutor } from "./strategy/executor.js";
+import type { OrderExecutor } from "./strategy/executor.js";
 import { ContentComposer } from "./content/composer.js";
+import { UsageMeter, budgetLevel, degradedTo, type LLMClient, type BudgetLevel } from "./llm/index.js";
 import {
   saveSignal,
   getRecentSignals,
@@ -15,36 +31,72 @@ import {
   saveTrade,
   getOpenTrades,
   getTopContributors,
+  getTradeStats,
+  findTradesByMarket,
+  getContributor,
+  getState,
+  setState,
 } from "./store/index.js";
 
+/** How far back a new signal looks for independent sources backing its claim */
+const CORROBORATION_WINDOW_HOURS = 48;
+
+/** Mentions held back while the LLM budget is exhausted; oldest are dropped beyond this */
+const MAX_HELD_MENTIONS = 500;
+
+/** campaign_state key for the held mentions, saved with each cursor commit so a restart keeps them */
+const HELD_STATE_KEY = "campaign_held_mentions";
+
 export class Campaign {
-  private twitter: TwitterClient;
+  private source: SignalSource;
+  private twitter?: TwitterClient;
   private enricher: SignalEnricher;
   private clusterer: TopicClusterer;
   private edgeScorer: EdgeScorer;
+  private catalog: MarketCatalog;
   private sanityChecker: SanityChecker;
-  private executor: TradeExecutor;
+  private executor: OrderExecutor;
   private composer: ContentComposer;
+  private meter: UsageMeter;
+  private heldMentions: RawMention[] = [];
+  /** When each user's last command was answered, for the command cooldown */
+  private lastCommandAt = new Map<string, number>();
+  private lastBudgetLevel: BudgetLevel = "normal";
   private config: CampaignConfig;
   private running = false;
   private startDate: Date;
 
   constructor(deps: {
-    twitter: TwitterClient;
-    anthropicApiKey: string;
-    vincentApiUrl: string;
-    vincentApiKey: string;
+    /** Where mentions come from — the live Twitter client or a replay */
+    source: SignalSource;
+    /** Used to publish threads; when omitted, threads are only logged */
+    twitter?: TwitterClient;
+    /** Model access for every pipeline stage */
+    llm: LLMClient;
+    /** Where orders go — the Vincent API live, a DryRunExecutor in replay */
+    executor: OrderExecutor;
     config: CampaignConfig;
+    /** Unfurls linked articles; defaults to live HTTP fetches */
+    linkResolver?: LinkResolver;
+    /** Market reads; defaults to the live Gamma API */
+    polymarket?: PolymarketApi;
+    /** Local market catalog; defaults to one synced from `polymarket` */
+    catalog?: MarketCatalog;
   }) {
+    const polymarket = deps.polymarket ?? gammaApi;
+    this.source = deps.source;
     this.twitter = deps.twitter;
-    this.enricher = new SignalEnricher(deps.anthropicApiKey, deps.config);
-    this.clusterer = new TopicClusterer(deps.anthropicApiKey);
-    this.edgeScorer = new EdgeScorer(deps.anthropicApiKey);
-    this.sanityChecker = new SanityChecker(deps.anthropicApiKey, deps.config);
-    this.executor = new TradeExecutor(deps.vincentApiUrl, deps.vincentApiKey);
+    this.meter = new UsageMeter(deps.llm);
+    this.enricher = new SignalEnricher(this.meter, deps.config, deps.linkResolver ?? new LinkResolver(), polymarket);
+    this.clusterer = new TopicClusterer(this.meter);
+    this.edgeScorer = new EdgeScorer(this.meter, polymarket);
+    this.catalog = deps.catalog ?? new MarketCatalog(deps.config, polymarket);
+    this.sanityChecker = new SanityChecker(this.meter, deps.config);
+    this.executor = deps.executor;
     this.composer = new ContentComposer();
     this.config = deps.config;
     this.startDate = new Date();
+    this.restoreHeld();
   }
 
   /**
@@ -55,6 +107,7 @@ export class Campaign {
     console.log(`[Campaign] Starting "Vincent Plays Polymarket" campaign`);
     console.log(`[Campaign] Bankroll: $${this.config.bankroll}`);
     console.log(`[Campaign] Poll interval: ${this.config.pollIntervalSeconds}s`);
+    this.catalog.start();
 
     while (this.running) {
       try {
@@ -68,6 +121,7 @@ export class Campaign {
 
   stop() {
     this.running = false;
+    this.catalog.stop();
     console.log("[Campaign] Stopping...");
   }
 
@@ -80,27 +134,96 @@ export class Campaign {
    * 5. Sanity check and decide
    * 6. Execute trades
    * 7. Publish content
+   *
+   * Steps 2-5 and PASS/WATCH threads are skipped as the day's LLM budget runs
+   * out. The budget is re-checked before each enrichment batch, each cluster
+   * scored and each sanity check, so a stage stops partway at the cap.
    */
   async tick() {
     console.log(`[Campaign] Tick at ${new Date().toISOString()}`);
+    this.meter.startTick();
+    try {
+      await this.runPipeline();
+    } finally {
+      this.logUsage();
+    }
+  }
 
+  private async runPipeline() {
     // 1. Fetch mentions
-    const mentions = await this.twitter.fetchMentions();
-    if (mentions.length === 0) {
+    const { mentions, cursor } = await this.source.fetchMentions();
+    // Held mentions alone are only worth a pass once the budget has room again
+    const canReleaseHeld = this.heldMentions.length > 0 && !degradedTo(this.budgetLevel(), "skip_enrichment");
+    if (mentions.length === 0 && !canReleaseHeld) {
+      if (cursor) this.source.commitCursor?.(cursor);
       console.log("[Campaign] No new mentions");
       return;
     }
     console.log(`[Campaign] Fetched ${mentions.length} new mentions`);
 
+    // Commands ("!status", "!why ...") get a reply and skip enrichment and the signal quota
+    const { commands, signals: signalMentions } = partitionCommands(mentions, this.config.twitterHandle);
+    for (const command of commands) {
+      const userId = command.mention.user.id;
+      const last = this.lastCommandAt.get(userId);
+      if (last !== undefined && Date.now() - last < this.config.commandCooldownMinutes * 60 * 1000) {
+        console.log(`[Campaign] Ignoring !${command.name} from @${command.mention.user.handle}: command cooldown`);
+        continue;
+      }
+      this.lastCommandAt.set(userId, Date.now());
+      try {
+        await this.handleCommand(command);
+      } catch (err) {
+        console.error(`[Campaign] Failed to answer !${command.name} from @${command.mention.user.handle}:`, err);
+      }
+    }
+
     // Rate limit per user
-    const rateLimited = mentions.filter((m) => {
+    const rateLimited = signalMentions.filter((m) => {
       const count = getUserSignalCountToday(m.user.handle);
       return count < this.config.maxSignalsPerUserPerDay;
     });
 
-    // 2. Enrich
-    const signals = await this.enricher.enrichBatch(rateLimited);
-    console.log(`[Campaign] Enriched ${signals.length} signals (${mentions.length - signals.length} filtered/noise)`);
+    // 2. Enrich a batch at a time — once the budget runs low or the model API fails, hold the rest for a later tick
+    const queue = [...this.heldMentions, ...rateLimited];
+    this.heldMentions = [];
+    const enriched: EnrichedSignal[] = [];
+    let attempted = 0;
+    const batchSize = Math.max(1, this.config.enrichmentBatchSize);
+    const hold = (reason: string) => {
+      this.heldMentions = queue.slice(-MAX_HELD_MENTIONS);
+      console.warn(`[Campaign] ${reason} — holding ${this.heldMentions.length} mentions unenriched`);
+      const dropped = queue.slice(0, Math.max(0, queue.length - MAX_HELD_MENTIONS));
+      if (dropped.length > 0) {
+        console.warn(
+          `[Campaign] Held queue full — dropped ${dropped.length} oldest mentions: ${dropped.map((m) => m.tweetId).join(", ")}`
+        );
+      }
+    };
+    while (queue.length > 0) {
+      if (degradedTo(this.budgetLevel(), "skip_enrichment")) {
+        hold("LLM budget nearly spent");
+        break;
+      }
+      const batch = queue.splice(0, batchSize);
+      try {
+        enriched.push(...(await this.enricher.enrichBatch(batch)));
+        attempted += batch.length;
+      } catch (err) {
+        console.error("[Campaign] Enrichment failed:", err);
+        queue.unshift(...batch);
+        hold("LLM unavailable");
+        break;
+      }
+    }
+    console.log(`[Campaign] Enriched ${enriched.length} signals (${attempted - enriched.length} filtered/noise)`);
+
+    // Link each new signal to earlier, independent sources backing the same claim
+    const signals = corroborateSignals(enriched, getRecentSignals(CORROBORATION_WINDOW_HOURS));
+    const corroborated = signals.filter((s) => s.corroboration.length > 0).length;
+    if (corroborated > 0) {
+      console.log(`[Campaign] ${corroborated} new signals corroborated by independent sources`);
+    }
 
     // Save signals and update contributors
     for (const signal of signals) {
@@ -108,19 +231,38 @@ export class Campaign {
       updateContributor(signal);
     }
 
-    // 3. Cluster — use all recent signals, not just this batch
-    const recentSignals = getRecentSignals(24);
+    // Only now is the batch safe to skip on restart: its signals are stored
+    // and whatever the budget held back is saved to be picked up again
+    this.saveHeld();
+    if (cursor) this.source.commitCursor?.(cursor);
+
+    if (degradedTo(this.budgetLevel(), "pause_scoring")) {
+      console.warn("[Campaign] LLM budget spent — edge scoring paused until tomorrow");
+      return;
+    }
+
+    // 3. Cluster — use all recent signals, not just this batch, with
+    // copy-paste and same-thread signals folded into single evidence units
+    const recentSignals = dedupeSignals(getRecentSignals(24));
     if (recentSignals.length < 2) {
       console.log("[Campaign] Not enough recent signals to cluster");
       return;
     }
+    const folded = recentSignals.reduce((sum, s) => sum + (s.duplicates?.length || 0), 0);
+    if (folded > 0) {
+      console.log(`[Campaign] Folded ${folded} duplicate signals into ${recentSignals.length} independent units`);
+    }
 
     const clusters = await this.clusterer.clusterSignals(recentSignals);
     console.log(`[Campaign] Found ${clusters.length} topic clusters`);
 
-    // 4. Find edge opportunities
+    // 4. Find edge opportunities, stopping where the budget runs out
     const allOpportunities: EdgeOpportunity[] = [];
     for (const cluster of clusters) {
+      if (degradedTo(this.budgetLevel(), "pause_scoring")) {
+        console.warn("[Campaign] LLM budget spent — edge scoring stopped for the remaining clusters");
+        break;
+      }
       const weight = this.clusterer.clusterWeight(cluster);
       const opportunities = await this.edgeScorer.findEdge(cluster, weight);
       allOpportunities.push(...opportunities);
@@ -134,6 +276,11 @@ export class Campaign {
       .slice(0, 3); // evaluate top 3
 
     for (const opp of topOpportunities) {
+      // No trade goes out without its sanity check
+      if (degradedTo(this.budgetLevel(), "pause_scoring")) {
+        console.warn("[Campaign] LLM budget spent — remaining opportunities wait for tomorrow's sanity checks");
+        break;
+      }
       const order = await this.sanityChecker.evaluate(opp, portfolio);
       console.log(`[Campaign] ${order.market.question.slice(0, 50)} → ${order.decision}`);
 
@@ -147,7 +294,7 @@ export class Campaign {
 
           // Publish trade entry thread
           const tweets = this.composer.composeTradeEntry(order, portfolio);
-          await this.twitter.postThread(tweets);
+          await this.publish(tweets);
         } else {
           console.error(`[Campaign] Trade failed: ${result.error}`);
           saveTrade({ ...order, decision: "PASS" }, undefined);
@@ -155,20 +302,100 @@ export class Campaign {
       } else if (order.decision === "PASS") {
         saveTrade(order);
         // Only tweet about passes if there were enough signals (interesting content)
-        if (order.contributingSignals.length >= this.config.minSignalsToAct) {
+        if (
+          order.contributingSignals.length >= this.config.minSignalsToAct &&
+          !degradedTo(this.budgetLevel(), "skip_commentary")
+        ) {
           const tweets = this.composer.composeTradePass(order);
-          await this.twitter.postThread(tweets);
+          await this.publish(tweets);
         }
       } else if (order.decision === "WATCH") {
         saveTrade(order);
-        if (order.contributingSignals.length >= 3) {
+        if (order.contributingSignals.length >= 3 && !degradedTo(this.budgetLevel(), "skip_commentary")) {
           const tweets = this.composer.composeTradeWatch(order);
-          await this.twitter.postThread(tweets);
+          await this.publish(tweets);
         }
       }
     }
   }
 
+  private saveHeld() {
+    setState(HELD_STATE_KEY, JSON.stringify(this.heldMentions));
+  }
+
+  /**
+   * Reload the mentions a previous run held back for budget and committed past.
+   */
+  private restoreHeld() {
+    const stored = getState(HELD_STATE_KEY);
+    if (!stored) return;
+    try {
+      this.heldMentions = (JSON.parse(stored) as unknown[]).map(reviveMention);
+      if (this.heldMentions.length > 0) {
+        console.log(`[Campaign] Restored ${this.heldMentions.length} mentions held for the LLM budget`);
+      }
+    } catch (err) {
+      console.warn("[Campaign] Ignoring unreadable held mentions:", err);
+    }
+  }
+
+  /**
+   * Answer a mention command from the store, replying under the mention.
+   */
+  private async handleCommand(command: MentionCommand) {
+    let tweets: string[];
+    switch (command.name) {
+      case "status": {
+        const portfolio = await this.getPortfolioState();
+        tweets = this.composer.composeStatusReply(portfolio, getTradeStats(), getSignalCountToday().count);
+        break;
+      }
+      case "portfolio":
+        tweets = this.composer.composePortfolioReply(getOpenTrades());
+        break;
+      case "why":
+        tweets = this.composer.composeWhyReply(
+          command.args,
+          command.args ? findTradesByMarket(command.args)[0] : undefined
+        );
+        break;
+      case "me":
+        tweets = this.composer.composeMeReply(
+          command.mention.user.handle,
+          getContributor(command.mention.user.id)
+        );
+        break;
+    }
+    console.log(`[Campaign] Answering !${command.name} from @${command.mention.user.handle}`);
+    await this.publish(tweets, command.mention.tweetId);
+  }
+
+  /**
+   * Where today's LLM spend puts us against the daily budget. Logs whenever
+   * the level changes.
+   */
+  private budgetLevel(): BudgetLevel {
+    const spent = this.meter.spentToday();
+    const level = budgetLevel(spent, this.config.llmDailyBudgetUsd);
+    if (level !== this.lastBudgetLevel) {
+      console.warn(
+        `[Campaign] LLM budget level ${this.lastBudgetLevel} → ${level} ($${spent.toFixed(2)} of $${this.config.llmDailyBudgetUsd} spent today)`
+      );
+      this.lastBudgetLevel = level;
+    }
+    return level;
+  }
+
+  private logUsage() {
+    const tick = this.meter.tickTotal();
+    if (tick.calls === 0) return;
+    console.log(
+      `[Campaign] LLM usage this tick: ${tick.calls} calls (${tick.cachedCalls} cached), ` +
+        `${tick.inputTokens} in / ${tick.outputTokens} out tokens, $${tick.costUsd.toFixed(4)}; ` +
+        `today $${this.meter.spentToday().toFixed(2)} of $${this.config.llmDailyBudgetUsd}`
+    );
+  }
+
   /**
    * Build portfolio state from Vincent API and local data.
    */
@@ -196,6 +423,8 @@ export class Campaign {
         marketId: t.market_id,
         marketQuestion: t.market_question,
         direction: t.direction,
+        eventId: t.event_id || undefined,
+        tokenId: t.token_id || undefined,
         entryPrice: t.entry_price,
         currentPrice: t.entry_price, // TODO: fetch live prices
         size: t.size,
@@ -214,6 +443,17 @@ export class Campaign {
     };
   }
 
+  /**
+   * Post a thread, or log it when running without a Twitter client (replay/demo).
+   */
+  private async publish(tweets: string[], inReplyToId?: string) {
+    if (!this.twitter) {
+      console.log(`[Campaign] Thread (not posted):\n${tweets.map((t) => `  > ${t}`).join("\n")}`);
+      return;
+    }
+    await this.twitter.postThread(tweets, inReplyToId);
+  }
+
   private sleep(ms: number): Promise<void> {
     return new Promise((resolve) => setTimeout(resolve, ms));
   }
@@ -1,7 +1,22 @@
-import type { TradeOrder, PortfolioState, TopicCluster, EnrichedSignal, Contributor } from "../types/index.js";
+import type {
+  TradeOrder,
+  PortfolioState,
+  TopicCluster,
+  EnrichedSignal,
+  Contributor,
+  ClusterVelocity,
+} from "../types/index.js";
 
 const MAX_TWEET_LENGTH = 280;
 
+/** Early flaggers are only credited when they beat the trend by at least this long */
+const MIN_LEAD_HOURS = 0.5;
+
+/** Change in signals per hour, per hour, beyond which a narrative is picking up or cooling off */
+const PACE_ACCELERATION = 0.1;
+
+const HOUR_MS = 60 * 60 * 1000;
+
 /**
  * Compose tweet threads for different campaign events.
  */
@@ -16,8 +31,11 @@ export class ContentComposer {
     const tweets: string[] = [];
 
     // Tweet 1: Hook
+    const lead = this.describeLead(order);
     tweets.push(
-      `CT flagged something. ${signalCount} of you mentioned ${order.market.question.slice(0, 80)} in the last few hours. Here's what I'm seeing.`
+      lead
+        ? `CT flagged something on "${order.market.question.slice(0, 80)}". ${lead} Here's what I'm seeing.`
+        : `CT flagged something. ${signalCount} of you mentioned ${order.market.question.slice(0, 80)} in the last few hours. Here's what I'm seeing.`
     );
 
     // Tweet 2: Signal summary
@@ -31,7 +49,7 @@ export class ContentComposer {
 
     // Tweet 3: Trade details
     tweets.push(
-      `Entering ${order.direction} at $${order.entryPrice.toFixed(2)}\n` +
+      `Entering ${this.describeOutcome(order)} at $${order.entryPrice.toFixed(2)}\n` +
       `Position: $${order.size} (${((order.size / portfolio.bankroll) * 100).toFixed(1)}% of bankroll)\n` +
       `SL: $${order.stopLoss.toFixed(2)} | TP: $${order.takeProfit.toFixed(2)}\n` +
       `Edge score: ${order.edgeScore.toFixed(2)}\n\n` +
@@ -69,7 +87,7 @@ export class ContentComposer {
   composeTradeWatch(order: TradeOrder): string[] {
     return [
       `Watching: "${order.market.question.slice(0, 80)}"\n\n` +
-      `${order.contributingSignals.length} signals so far. ${order.reasoning}\n\n` +
+      `${order.contributingSignals.length} signals so far${order.velocity ? `, ${this.describePace(order.velocity)}` : ""}. ${order.reasoning}\n\n` +
       (order.watchCondition ? `Next move: ${order.watchCondition}\n\n` : "") +
       `Tag me with more signal if you have it.`,
     ].map((t) => this.truncate(t));
@@ -92,7 +110,7 @@ export class ContentComposer {
 
     tweets.push(
       `Position closed: "${order.market.question.slice(0, 60)}"\n\n` +
-      `${order.direction} | Entry: $${order.entryPrice.toFixed(2)} → Exit: $${exitPrice.toFixed(2)}\n` +
+      `${this.describeOutcome(order)} | Entry: $${order.entryPrice.toFixed(2)} → Exit: $${exitPrice.toFixed(2)}\n` +
       `P&L: ${pnlSign}$${Math.abs(pnl).toFixed(0)} (${pnlSign}${pnlPct}%)\n\n` +
       `Bankroll: $${portfolio.bankroll.toLocaleString()} (${portfolio.totalPnlPercent >= 0 ? "+" : ""}${portfolio.totalPnlPercent.toFixed(1)}% all time)`
     );
@@ -198,6 +216,107 @@ export class ContentComposer {
     return tweets.map((t) => this.truncate(t));
   }
 
+  /**
+   * Reply to "!status" — campaign snapshot.
+   */
+  composeStatusReply(
+    portfolio: PortfolioState,
+    stats: { trades: number; wins: number; losses: number; pnl: number },
+    signalsToday: number
+  ): string[] {
+    const pnlSign = stats.pnl >= 0 ? "+" : "-";
+    return [
+      `Day ${portfolio.dayNumber} status:\n\n` +
+      `Bankroll: $${portfolio.bankroll.toLocaleString()} | Cash: $${portfolio.cashAvailable.toLocaleString()}\n` +
+      `Open positions: ${portfolio.positions.length}\n` +
+      `Closed trades: ${stats.trades} (${stats.wins}W / ${stats.losses}L), P&L ${pnlSign}$${Math.abs(stats.pnl).toFixed(0)}\n` +
+      `Signals today: ${signalsToday}`,
+    ].map((t) => this.truncate(t));
+  }
+
+  /**
+   * Reply to "!portfolio" — open positions.
+   */
+  composePortfolioReply(openTrades: any[]): string[] {
+    if (openTrades.length === 0) {
+      return [`No open positions right now. Sitting in cash until CT finds an edge worth taking.`];
+    }
+    const lines = openTrades.map(
+      (t) => `- ${t.direction} "${t.market_question.slice(0, 50)}" @ $${Number(t.entry_price).toFixed(2)} ($${t.size})`
+    );
+    return [`Open positions (${openTrades.length}):\n\n${lines.join("\n")}`].map((t) => this.truncate(t));
+  }
+
+  /**
+   * Reply to "!why <market>" — the reasoning behind the latest decision on a
+   * market, or the usage when no market was given.
+   */
+  composeWhyReply(query: string, trade: any | undefined): string[] {
+    if (!query) {
+      return ["Usage: !why <market>, e.g. \"!why fed cut\" — I'll explain my latest call on that market."];
+    }
+    if (!trade) {
+      return [this.truncate(`I haven't made a call on anything matching "${query}" yet. Tag me with signal if you think I should look.`)];
+    }
+    const reason = trade.pass_reason || trade.watch_condition;
+    return [
+      `"${trade.market_question.slice(0, 80)}"\n\n` +
+      `Decision: ${trade.decision}${trade.decision === "TRADE" ? ` ${trade.direction}` : ""}\n` +
+      `${trade.reasoning}` +
+      (reason ? `\n\n${trade.decision === "WATCH" ? "Waiting on" : "Reason"}: ${reason}` : ""),
+    ].map((t) => this.truncate(t));
+  }
+
+  /**
+   * Reply to "!me" — the contributor's own track record.
+   */
+  composeMeReply(handle: string, contributor: Contributor | undefined): string[] {
+    if (!contributor || contributor.signalsSent === 0) {
+      return [`@${handle} no signals from you yet. Tag me with news, data or on-chain moves and I'll weigh them in.`];
+    }
+    return [
+      `@${handle} your record:\n\n` +
+      `Signals sent: ${contributor.signalsSent}\n` +
+      `Led to trades: ${contributor.signalsThatLedToTrades}\n` +
+      `Profitable: ${contributor.profitableContributions}\n` +
+      `First to flag: ${contributor.firstToFlagCount}`,
+    ].map((t) => this.truncate(t));
+  }
+
+  /**
+   * "3 of you flagged it 2 hours before it trended" — only when the early
+   * flaggers got there well ahead of the crowd.
+   */
+  private describeLead(order: TradeOrder): string | undefined {
+    const v = order.velocity;
+    if (!v?.trendingAt || v.earlyContributors.length === 0) return undefined;
+    const leadHours = (v.trendingAt.getTime() - v.firstFlaggedAt.getTime()) / HOUR_MS;
+    if (leadHours < MIN_LEAD_HOURS) return undefined;
+    return `${v.earlyContributors.length} of you flagged it ${this.formatHours(leadHours)} before it trended.`;
+  }
+
+  private describePace(v: ClusterVelocity): string {
+    const rate = `${v.signalsPerHour.toFixed(1)}/hr`;
+    if (v.acceleration > PACE_ACCELERATION) return `picking up (${rate})`;
+    if (v.acceleration < -PACE_ACCELERATION) return `cooling off (${rate})`;
+    return `steady (${rate})`;
+  }
+
+  /**
+   * "YES", "Lakers", or "YES on Trump" for one market of a multi-outcome event.
+   */
+  private describeOutcome(order: TradeOrder): string {
+    return order.market.negRisk && order.market.outcomeName
+      ? `${order.direction} on ${order.market.outcomeName}`
+      : order.direction;
+  }
+
+  private formatHours(hours: number): string {
+    if (hours < 1) return `${Math.round(hours * 60)} minutes`;
+    const rounded = Math.round(hours);
+    return rounded === 1 ? "an hour" : `${rounded} hours`;
+  }
+
   private getTopContributors(signals: EnrichedSignal[], limit: number): string[] {
     const counts = new Map<string, number>();
     for (const s of signals) {
@@ -1,8 +1,12 @@
 import "dotenv/config";
 import { Campaign } from "./campaign.js";
 import { TwitterClient } from "./ingestion/twitter.js";
+import { ReplaySource } from "./ingestion/replay.js";
+import { RecordingSource, type SignalSource } from "./ingestion/source.js";
 import { DEFAULT_CONFIG, type CampaignConfig } from "./types/index.js";
 import { closeDb } from "./store/db.js";
+import { AnthropicLLMClient, CachingLLMClient } from "./llm/index.js";
+import { TradeExecutor, DryRunExecutor, type OrderExecutor } from "./strategy/index.js";
 
 function loadConfig(): CampaignConfig {
   return {
@@ -10,21 +14,41 @@ function loadConfig(): CampaignConfig {
     bankroll: Number(process.env.CAMPAIGN_BANKROLL) || DEFAULT_CONFIG.bankroll,
     twitterHandle: process.env.CAMPAIGN_TWITTER_HANDLE || DEFAULT_CONFIG.twitterHandle,
     pollIntervalSeconds: Number(process.env.POLL_INTERVAL_SECONDS) || DEFAULT_CONFIG.pollIntervalSeconds,
+    llmDailyBudgetUsd: numberFromEnv("LLM_DAILY_BUDGET_USD", DEFAULT_CONFIG.llmDailyBudgetUsd),
   };
 }
 
+/**
+ * A numeric env var, or `fallback` when it's unset or not a number. Unlike
+ * `Number(x) || fallback`, an explicit 0 is kept.
+ */
+function numberFromEnv(name: string, fallback: number): number {
+  const raw = process.env[name]?.trim();
+  if (!raw) return fallback;
+  const value = Number(raw);
+  return Number.isNaN(value) ? fallback : value;
+}
+
 async function main() {
   const config = loadConfig();
 
+  // Replay mode reads recorded mentions from disk and never touches Twitter
+  // or the Vincent API
+  const replayFile = process.env.REPLAY_FILE;
+
   // Validate required env vars
   const required = [
-    "TWITTER_API_KEY",
-    "TWITTER_API_SECRET",
-    "TWITTER_ACCESS_TOKEN",
-    "TWITTER_ACCESS_SECRET",
+    ...(replayFile
+      ? []
+      : [
+          "TWITTER_API_KEY",
+          "TWITTER_API_SECRET",
+          "TWITTER_ACCESS_TOKEN",
+          "TWITTER_ACCESS_SECRET",
+          "VINCENT_API_URL",
+          "VINCENT_API_KEY",
+        ]),
     "ANTHROPIC_API_KEY",
-    "VINCENT_API_URL",
-    "VINCENT_API_KEY",
   ];
   for (const key of required) {
     if (!process.env[key]) {
@@ -34,19 +58,43 @@ async function main() {
     }
   }
 
-  const twitter = new TwitterClient({
-    apiKey: process.env.TWITTER_API_KEY!,
-    apiSecret: process.env.TWITTER_API_SECRET!,
-    accessToken: process.env.TWITTER_ACCESS_TOKEN!,
-    accessSecret: process.env.TWITTER_ACCESS_SECRET!,
-    handle: config.twitterHandle,
-  });
+  let twitter: TwitterClient | undefined;
+  let source: SignalSource;
+  let executor: OrderExecutor;
+
+  if (replayFile) {
+    source = new ReplaySource({
+      filePath: replayFile,
+      speed: Number(process.env.REPLAY_SPEED) || 1,
+    });
+    // Replayed mentions are rebased to now, so real orders would land on live markets
+    executor = new DryRunExecutor();
+    console.log(`Replaying mentions from ${replayFile} (dry run — no orders are placed)`);
+  } else {
+    twitter = new TwitterClient({
+      apiKey: process.env.TWITTER_API_KEY!,
+      apiSecret: process.env.TWITTER_API_SECRET!,
+      accessToken: process.env.TWITTER_ACCESS_TOKEN!,
+      accessSecret: process.env.TWITTER_ACCESS_SECRET!,
+      handle: config.twitterHandle,
+    });
+    source = process.env.RECORD_FILE
+      ? new RecordingSource(twitter, process.env.RECORD_FILE)
+      : twitter;
+    executor = new TradeExecutor(process.env.VINCENT_API_URL!, process.env.VINCENT_API_KEY!);
+  }
+
+  const llm = new CachingLLMClient(
+    new AnthropicLLMClient(process.env.ANTHROPIC_API_KEY!, config.llm),
+    config.llm,
+    { bypass: process.env.LLM_CACHE_BYPASS === "1" }
+  );
 
   const campaign = new Campaign({
+    source,
     twitter,
-    anthropicApiKey: process.env.ANTHROPIC_API_KEY!,
-    vincentApiUrl: process.env.VINCENT_API_URL!,
-    vincentApiKey: process.env.VINCENT_API_KEY!,
+    llm,
+    executor,
     config,
   });
 
@@ -54,6 +102,9 @@ async function main() {
   const shutdown = () => {
     console.log("\nShutting down...");
     campaign.stop();
+    for (const [stage, s] of Object.entries(llm.stats())) {
+      console.log(`LLM cache ${stage}: ${s.hits} hits, ${s.misses} misses, ~${s.tokensSaved} tokens saved`);
+    }
     closeDb();
     process.exit(0);
   };
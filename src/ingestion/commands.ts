@@ -0,0 +1,50 @@
+import type { RawMention } from "../types/index.js";
+
+export type CommandName = "status" | "portfolio" | "why" | "me";
+
+export interface MentionCommand {
+  name: CommandName;
+  /** Free text after the command, e.g. the market query for !why */
+  args: string;
+  mention: RawMention;
+}
+
+/**
+ * A command only counts directly after the bot's @handle ("@VincentPlays !why fed"),
+ * so a "!me" further into an ordinary tweet stays a signal.
+ * Twitter handles are word characters only, so the handle needs no escaping.
+ */
+function commandPattern(handle: string): RegExp {
+  return new RegExp(`(?:^|\\s)@${handle}\\s+!(status|portfolio|why|me)\\b[ \\t]*([^\\n]*)`, "i");
+}
+
+/**
+ * Recognize a "!command" addressed to `handle` in a mention. Returns null
+ * for ordinary signals. Commands are answered from the store and never
+ * enriched as signals.
+ */
+export function parseCommand(mention: RawMention, handle: string): MentionCommand | null {
+  const match = mention.text.match(commandPattern(handle));
+  if (!match) return null;
+
+  // Drop trailing @handles so "!why fed cut @VincentPlays" queries "fed cut"
+  const args = match[2].replace(/(^|\s)@\w+/g, " ").replace(/\s+/g, " ").trim();
+  return { name: match[1].toLowerCase() as CommandName, args, mention };
+}
+
+/**
+ * Split a batch of mentions into commands and candidate signals.
+ */
+export function partitionCommands(mentions: RawMention[], handle: string): {
+  commands: MentionCommand[];
+  signals: RawMention[];
+} {
+  const commands: MentionCommand[] = [];
+  const signals: RawMention[] = [];
+  for (const m of mentions) {
+    const command = parseCommand(m, handle);
+    if (command) commands.push(command);
+    else signals.push(m);
+  }
+  return { commands, signals };
+}
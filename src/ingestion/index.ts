@@ -1,2 +1,6 @@
 export { TwitterClient } from "./twitter.js";
 export { SignalEnricher } from "./enricher.js";
+export { type SignalSource, type MentionBatch, RecordingSource } from "./source.js";
+export { ReplaySource, loadMentions } from "./replay.js";
+export { LinkResolver, httpFetcher, fixtureFetcher, extractPreview, isPublicUrl, type PageFetcher } from "./links.js";
+export { parseCommand, partitionCommands, type MentionCommand, type CommandName } from "./commands.js";
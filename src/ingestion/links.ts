@@ -0,0 +1,314 @@
+import fs from "fs";
+import dns from "dns/promises";
+import net from "net";
+import type { RawMention, LinkPreview } from "../types/index.js";
+import { cacheLink, getCachedLink } from "../store/index.js";
+
+export interface FetchedPage {
+  url: string;
+  status: number;
+  contentType: string;
+  body: string;
+}
+
+/**
+ * Fetches a URL and returns its (size-limited) body, or null if unreachable.
+ * Swap in fixtureFetcher for tests so no network is needed.
+ */
+export type PageFetcher = (url: string) => Promise<FetchedPage | null>;
+
+/**
+ * Links to tweets are already covered by the conversation context, and
+ * Polymarket links are resolved to markets through the gamma API instead.
+ */
+const SKIP_DOMAINS = ["twitter.com", "x.com", "t.co", "polymarket.com"];
+
+/** Redirect hops followed, each checked against private addresses */
+const MAX_REDIRECTS = 5;
+
+const DEFAULT_OPTIONS = {
+  maxLinksPerMention: 5,
+  maxBytes: 512 * 1024,
+  maxExcerptChars: 600,
+  timeoutMs: 8000,
+  cacheTtlMs: 24 * 60 * 60 * 1000,
+  /** Timeouts and server errors are retried after this long */
+  errorCacheTtlMs: 15 * 60 * 1000,
+};
+
+export type LinkResolverOptions = typeof DEFAULT_OPTIONS & { fetcher?: PageFetcher };
+
+/**
+ * Unfurls URLs from a mention and its context into title, date, domain
+ * and a readable excerpt, so the enricher sees article content rather
+ * than a bare URL string.
+ */
+export class LinkResolver {
+  private fetcher: PageFetcher;
+  private options: typeof DEFAULT_OPTIONS;
+
+  constructor(options: Partial<LinkResolverOptions> = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+    this.fetcher = options.fetcher ?? httpFetcher(this.options.maxBytes, this.options.timeoutMs);
+  }
+
+  /**
+   * Resolve every distinct URL in the mention, its parent tweets and its
+   * quoted tweet (capped at maxLinksPerMention). Unresolvable links are dropped.
+   */
+  async resolveMention(mention: RawMention): Promise<LinkPreview[]> {
+    const urls = [
+      ...mention.urls,
+      ...mention.conversationContext.flatMap((t) => t.urls),
+      ...(mention.quotedTweet?.urls || []),
+    ];
+    const unique = [...new Set(urls)]
+      .filter((u) => !isSkipped(u))
+      .slice(0, this.options.maxLinksPerMention);
+
+    const previews = await Promise.all(unique.map((u) => this.resolve(u)));
+    return previews.filter((p): p is LinkPreview => p !== null);
+  }
+
+  /**
+   * Resolve a single URL, consulting the cache first.
+   */
+  async resolve(url: string): Promise<LinkPreview | null> {
+    const cached = getCachedLink(url, this.options.cacheTtlMs, this.options.errorCacheTtlMs);
+    if (cached !== undefined) return cached;
+
+    let preview: LinkPreview | null = null;
+    let transient = false;
+    try {
+      const page = await this.fetcher(url);
+      if (page && page.status >= 500) {
+        transient = true;
+      } else if (page && page.status < 400 && /html|text\/plain/i.test(page.contentType)) {
+        preview = extractPreview(page, this.options.maxExcerptChars);
+      }
+    } catch (err) {
+      transient = true;
+      console.warn(`[Links] Could not fetch ${url}:`, err);
+    }
+
+    cacheLink(url, preview, transient);
+    return preview;
+  }
+}
+
+/**
+ * Default fetcher: GET with a timeout, reading at most maxBytes of the body.
+ * Redirects are followed by hand so every hop can be checked: URLs come
+ * from anyone who tags the bot, so hosts resolving to loopback, private,
+ * link-local or metadata addresses are refused (resolves to null).
+ */
+export function httpFetcher(maxBytes: number, timeoutMs: number): PageFetcher {
+  return async (url) => {
+    const signal = AbortSignal.timeout(timeoutMs);
+    let current = url;
+    let resp: Response | undefined;
+    for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+      if (!(await isPublicUrl(current))) {
+        console.warn(`[Links] Refusing to fetch ${current}: not a public address`);
+        return null;
+      }
+      resp = await fetch(current, {
+        redirect: "manual",
+        signal,
+        headers: { "User-Agent": "Mozilla/5.0 (compatible; VincentPlays/1.0)" },
+      });
+      const location = resp.headers.get("location");
+      if (resp.status < 300 || resp.status >= 400 || !location) break;
+      await resp.body?.cancel().catch(() => {});
+      current = new URL(location, current).toString();
+      resp = undefined;
+    }
+    if (!resp) return null;
+    const finalUrl = current;
+
+    const contentType = resp.headers.get("content-type") || "";
+    if (!resp.body || !/html|text\/plain/i.test(contentType)) {
+      return { url: finalUrl, status: resp.status, contentType, body: "" };
+    }
+
+    // Stream the body so a huge page can't blow up memory
+    const reader = resp.body.getReader();
+    const chunks: Uint8Array[] = [];
+    let received = 0;
+    while (received < maxBytes) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      chunks.push(value);
+      received += value.length;
+    }
+    await reader.cancel().catch(() => {});
+
+    const body = Buffer.concat(chunks).subarray(0, maxBytes).toString("utf-8");
+    return { url: finalUrl, status: resp.status, contentType, body };
+  };
+}
+
+/**
+ * True when `url` is http(s) and every address its host resolves to is
+ * publicly routable. (A host that re-resolves between this check and the
+ * fetch can still slip through; this stops the plain cases.)
+ */
+export async function isPublicUrl(url: string): Promise<boolean> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return false;
+  }
+  if (parsed.protocol !== "http:" && parsed.protocol !== "https:") return false;
+
+  const host = parsed.hostname.replace(/^\[|\]$/g, "");
+  try {
+    const addresses = net.isIP(host) ? [{ address: host }] : await dns.lookup(host, { all: true, verbatim: true });
+    return addresses.length > 0 && addresses.every((a) => !isPrivateAddress(a.address));
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Loopback, private, link-local (cloud metadata), shared, multicast and
+ * reserved ranges, IPv4 and IPv6.
+ */
+function isPrivateAddress(ip: string): boolean {
+  // IPv4-mapped IPv6, dotted or (as URL parsing writes it) hex
+  const mapped = ip.toLowerCase().match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+  if (mapped) return isPrivateAddress(mapped[1]);
+  const mappedHex = ip.toLowerCase().match(/^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/);
+  if (mappedHex) {
+    const [hi, lo] = [parseInt(mappedHex[1], 16), parseInt(mappedHex[2], 16)];
+    return isPrivateAddress(`${hi >> 8}.${hi & 255}.${lo >> 8}.${lo & 255}`);
+  }
+
+  if (net.isIPv4(ip)) {
+    const [a, b, c] = ip.split(".").map(Number);
+    return (
+      a === 0 ||
+      a === 10 ||
+      a === 127 ||
+      (a === 100 && b >= 64 && b < 128) ||
+      (a === 169 && b === 254) ||
+      (a === 172 && b >= 16 && b < 32) ||
+      (a === 192 && b === 168) ||
+      (a === 192 && b === 0 && (c === 0 || c === 2)) ||
+      (a === 198 && (b === 18 || b === 19)) ||
+      a >= 224
+    );
+  }
+
+  const v6 = ip.toLowerCase();
+  return (
+    v6 === "::" ||
+    v6 === "::1" ||
+    /^f[cd]/.test(v6) ||
+    /^fe[89ab]/.test(v6) ||
+    v6.startsWith("ff")
+  );
+}
+
+/**
+ * Fetcher backed by local HTML files, keyed by URL. Unknown URLs resolve to null.
+ */
+export function fixtureFetcher(fixtures: Record<string, string>): PageFetcher {
+  return async (url) => {
+    const filePath = fixtures[url];
+    if (!filePath) return null;
+    return { url, status: 200, contentType: "text/html", body: fs.readFileSync(filePath, "utf-8") };
+  };
+}
+
+/**
+ * Pull title, publish date, domain and a text excerpt out of an HTML page.
+ */
+export function extractPreview(page: FetchedPage, maxExcerptChars: number): LinkPreview {
+  const html = page.body;
+  const meta = parseMetaTags(html);
+
+  const title =
+    meta["og:title"] ||
+    meta["twitter:title"] ||
+    decodeEntities(html.match(/<title[^>]*>([\s\S]*?)<\/title>/i)?.[1] || "").trim() ||
+    undefined;
+
+  const publishedAt =
+    meta["article:published_time"] ||
+    meta["og:published_time"] ||
+    meta["datepublished"] ||
+    meta["pubdate"] ||
+    meta["date"] ||
+    html.match(/"datePublished"\s*:\s*"([^"]+)"/)?.[1] ||
+    html.match(/<time[^>]*datetime="([^"]+)"/i)?.[1] ||
+    undefined;
+
+  const description = meta["og:description"] || meta["description"] || "";
+  const paragraphs = [...stripNonContent(html).matchAll(/<p[^>]*>([\s\S]*?)<\/p>/gi)]
+    .map((m) => htmlToText(m[1]))
+    .filter((p) => p.length > 40);
+
+  const text = [description, ...paragraphs].filter(Boolean).join(" ");
+  const excerpt = text.length > maxExcerptChars ? text.slice(0, maxExcerptChars - 3) + "..." : text;
+
+  return {
+    url: page.url,
+    domain: domainOf(page.url),
+    title,
+    publishedAt,
+    excerpt,
+  };
+}
+
+function isSkipped(url: string): boolean {
+  const domain = domainOf(url);
+  return SKIP_DOMAINS.some((d) => domain === d || domain.endsWith(`.${d}`));
+}
+
+function domainOf(url: string): string {
+  try {
+    return new URL(url).hostname.replace(/^www\./, "");
+  } catch {
+    return "";
+  }
+}
+
+/**
+ * Map of lowercased meta name/property/itemprop → content.
+ */
+function parseMetaTags(html: string): Record<string, string> {
+  const meta: Record<string, string> = {};
+  for (const tag of html.matchAll(/<meta\s[^>]*>/gi)) {
+    const attrs: Record<string, string> = {};
+    for (const a of tag[0].matchAll(/([a-zA-Z:-]+)\s*=\s*("([^"]*)"|'([^']*)')/g)) {
+      attrs[a[1].toLowerCase()] = a[3] ?? a[4] ?? "";
+    }
+    const key = (attrs.property || attrs.name || attrs.itemprop || "").toLowerCase();
+    if (key && attrs.content && !(key in meta)) {
+      meta[key] = decodeEntities(attrs.content).trim();
+    }
+  }
+  return meta;
+}
+
+function stripNonContent(html: string): string {
+  return html.replace(/<(script|style|nav|header|footer|aside|noscript)[^>]*>[\s\S]*?<\/\1>/gi, " ");
+}
+
+function htmlToText(fragment: string): string {
+  return decodeEntities(fragment.replace(/<[^>]+>/g, " ")).replace(/\s+/g, " ").trim();
+}
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&#(\d+);/g, (_, n) => String.fromCharCode(Number(n)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, n) => String.fromCharCode(parseInt(n, 16)))
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&apos;/g, "'")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&amp;/g, "&");
+}
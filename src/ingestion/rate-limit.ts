@@ -0,0 +1,78 @@
+import type { SingleTwitterRateLimit } from "twitter-api-v2";
+
+/** Fallback wait when a 429 arrives without reset headers (one v2 rate-limit window) */
+const DEFAULT_WINDOW_MS = 15 * 60 * 1000;
+
+interface EndpointBudget {
+  limit: number;
+  remaining: number;
+  resetAt: number; // epoch ms
+}
+
+/**
+ * Tracks the x-rate-limit-* headers Twitter returns per endpoint and decides
+ * whether we can afford another call. A fraction of every window is held in
+ * reserve so a busy tick can't drain an endpoint down to zero.
+ */
+export class RequestBudget {
+  private endpoints = new Map<string, EndpointBudget>();
+  private reserveFraction: number;
+
+  constructor(reserveFraction = 0.1) {
+    this.reserveFraction = reserveFraction;
+  }
+
+  /**
+   * Record the rate-limit state from a successful response.
+   */
+  record(endpoint: string, rateLimit?: SingleTwitterRateLimit) {
+    if (!rateLimit) return;
+    this.endpoints.set(endpoint, {
+      limit: rateLimit.limit,
+      remaining: rateLimit.remaining,
+      resetAt: rateLimit.reset * 1000,
+    });
+  }
+
+  /**
+   * Mark an endpoint as exhausted after a 429, until its reset time.
+   */
+  recordExhausted(endpoint: string, rateLimit?: SingleTwitterRateLimit) {
+    const existing = this.endpoints.get(endpoint);
+    this.endpoints.set(endpoint, {
+      limit: rateLimit?.limit ?? existing?.limit ?? 0,
+      remaining: 0,
+      resetAt: rateLimit ? rateLimit.reset * 1000 : Date.now() + DEFAULT_WINDOW_MS,
+    });
+  }
+
+  /**
+   * Calls left in the current window. Unknown endpoints and windows that
+   * have already reset count as unlimited until the next response says otherwise.
+   */
+  remaining(endpoint: string): number {
+    const budget = this.endpoints.get(endpoint);
+    if (!budget || Date.now() >= budget.resetAt) return Infinity;
+    return budget.remaining;
+  }
+
+  /**
+   * Whether `calls` more requests fit without dipping into the reserve.
+   */
+  canSpend(endpoint: string, calls = 1): boolean {
+    const budget = this.endpoints.get(endpoint);
+    const remaining = this.remaining(endpoint);
+    if (remaining === Infinity) return true;
+    const reserve = Math.ceil(budget!.limit * this.reserveFraction);
+    return remaining - calls >= reserve;
+  }
+
+  /**
+   * Milliseconds until the endpoint's window resets (0 if not limited).
+   */
+  msUntilReset(endpoint: string): number {
+    const budget = this.endpoints.get(endpoint);
+    if (!budget) return 0;
+    return Math.max(0, budget.resetAt - Date.now());
+  }
+}
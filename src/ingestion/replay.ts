@@ -0,0 +1,120 @@
+import fs from "fs";
+import type { RawMention, ConversationTweet } from "../types/index.js";
+import type { SignalSource, MentionBatch } from "./source.js";
+
+/**
+ * Replays recorded mentions from a JSONL file (one RawMention per line).
+ *
+ * Mentions are released on a virtual clock that starts at the earliest
+ * recorded timestamp and advances `speed` times faster than wall time,
+ * so speed = 1 replays in real time and speed = 60 replays an hour per minute.
+ * Use speed = Infinity to release everything on the first poll.
+ *
+ * By default timestamps are rebased onto the wall clock so that recency
+ * weighting and the 24h signal window behave as they would live.
+ */
+export class ReplaySource implements SignalSource {
+  private pending: RawMention[];
+  private speed: number;
+  private rebaseTimestamps: boolean;
+  private recordedStart: number;
+  private replayStart?: number;
+
+  constructor(config: {
+    filePath: string;
+    speed?: number;
+    rebaseTimestamps?: boolean;
+  }) {
+    this.pending = loadMentions(config.filePath).sort(
+      (a, b) => a.timestamp.getTime() - b.timestamp.getTime()
+    );
+    this.speed = config.speed ?? 1;
+    this.rebaseTimestamps = config.rebaseTimestamps ?? true;
+    this.recordedStart = this.pending.length > 0 ? this.pending[0].timestamp.getTime() : 0;
+  }
+
+  /**
+   * True once every recorded mention has been released.
+   */
+  get exhausted(): boolean {
+    return this.pending.length === 0;
+  }
+
+  async fetchMentions(): Promise<MentionBatch> {
+    const now = Date.now();
+    if (this.replayStart === undefined) {
+      this.replayStart = now;
+    }
+
+    // 0 * Infinity is NaN, so infinite speed is special-cased
+    const clock = Number.isFinite(this.speed)
+      ? this.recordedStart + (now - this.replayStart) * this.speed
+      : Infinity;
+
+    let released = 0;
+    while (released < this.pending.length && this.pending[released].timestamp.getTime() <= clock) {
+      released++;
+    }
+    const batch = this.pending.splice(0, released);
+
+    // Newest first, matching the Twitter mention timeline
+    return {
+      mentions: batch.map((m) => (this.rebaseTimestamps ? this.rebase(m) : m)).reverse(),
+    };
+  }
+
+  private rebase(mention: RawMention): RawMention {
+    // Place the mention where it falls on the replay clock, and shift its
+    // context by the same amount so parent/quote gaps are preserved
+    const recordedOffset = mention.timestamp.getTime() - this.recordedStart;
+    const replayed = this.replayStart! + (Number.isFinite(this.speed) ? recordedOffset / this.speed : 0);
+    const delta = replayed - mention.timestamp.getTime();
+    const move = (d: Date) => new Date(d.getTime() + delta);
+
+    return {
+      ...mention,
+      timestamp: move(mention.timestamp),
+      conversationContext: mention.conversationContext.map((t) => ({ ...t, timestamp: move(t.timestamp) })),
+      quotedTweet: mention.quotedTweet
+        ? { ...mention.quotedTweet, timestamp: move(mention.quotedTweet.timestamp) }
+        : undefined,
+    };
+  }
+}
+
+/**
+ * Read a JSONL file of recorded mentions, reviving Date fields.
+ */
+export function loadMentions(filePath: string): RawMention[] {
+  const lines = fs.readFileSync(filePath, "utf-8").split("\n");
+  const mentions: RawMention[] = [];
+
+  for (const [i, line] of lines.entries()) {
+    if (!line.trim()) continue;
+    try {
+      mentions.push(reviveMention(JSON.parse(line)));
+    } catch (err) {
+      console.warn(`[Replay] Skipping malformed line ${i + 1} in ${filePath}:`, err);
+    }
+  }
+
+  return mentions;
+}
+
+/**
+ * Turn a mention parsed from JSON back into a RawMention, reviving its dates.
+ */
+export function reviveMention(obj: any): RawMention {
+  return {
+    ...obj,
+    // Recordings made before media capture have no media field
+    media: obj.media || [],
+    timestamp: new Date(obj.timestamp),
+    conversationContext: (obj.conversationContext || []).map(reviveTweet),
+    quotedTweet: obj.quotedTweet ? reviveTweet(obj.quotedTweet) : undefined,
+  };
+}
+
+function reviveTweet(obj: any): ConversationTweet {
+  return { ...obj, media: obj.media || [], timestamp: new Date(obj.timestamp) };
+}
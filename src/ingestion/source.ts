@@ -0,0 +1,52 @@
+import fs from "fs";
+import path from "path";
+import type { RawMention } from "../types/index.js";
+
+/** One poll's worth of mentions */
+export interface MentionBatch {
+  mentions: RawMention[];
+  /**
+   * Where the next poll should resume once these mentions are safely
+   * stored; absent when the source has nothing to persist.
+   */
+  cursor?: string;
+}
+
+/**
+ * Anything that can feed mentions into the campaign loop.
+ * Each call returns only mentions not yet returned by a previous call.
+ * The cursor is handed back through commitCursor only after the caller
+ * has stored the batch, so a crash in between re-reads it on restart.
+ */
+export interface SignalSource {
+  fetchMentions(): Promise<MentionBatch>;
+  commitCursor?(cursor: string): void;
+}
+
+/**
+ * Wraps another source and appends every mention it yields to a JSONL file,
+ * so a live session can be replayed later with ReplaySource.
+ */
+export class RecordingSource implements SignalSource {
+  private inner: SignalSource;
+  private filePath: string;
+
+  constructor(inner: SignalSource, filePath: string) {
+    this.inner = inner;
+    this.filePath = filePath;
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  }
+
+  async fetchMentions(): Promise<MentionBatch> {
+    const batch = await this.inner.fetchMentions();
+    if (batch.mentions.length > 0) {
+      const lines = batch.mentions.map((m) => JSON.stringify(m)).join("\n") + "\n";
+      fs.appendFileSync(this.filePath, lines);
+    }
+    return batch;
+  }
+
+  commitCursor(cursor: string) {
+    this.inner.commitCursor?.(cursor);
+  }
+}
@@ -1,17 +1,65 @@
-import { TwitterApi } from "twitter-api-v2";
-import type { RawMention, ConversationTweet } from "../types/index.js";
+import {
+  ApiResponseError,
+  TwitterApi,
+  type MediaObjectV2,
+  type TweetV2,
+  type TweetV2SingleResult,
+  type TwitterResponse,
+  type UserV2,
+} from "twitter-api-v2";
+import type { RawMention, ConversationTweet, MediaAttachment } from "../types/index.js";
+import { getState, setState, cacheTweet, getCachedTweet, pruneTweetCache } from "../store/index.js";
+import type { SignalSource, MentionBatch } from "./source.js";
+import { reviveMention } from "./replay.js";
+import { RequestBudget } from "./rate-limit.js";
 
-const TWEET_FIELDS = ["created_at", "public_metrics", "entities", "conversation_id", "referenced_tweets"] as const;
+const TWEET_FIELDS = ["created_at", "public_metrics", "entities", "conversation_id", "referenced_tweets", "attachments"] as const;
 const USER_FIELDS = ["public_metrics", "created_at"] as const;
-const EXPANSIONS = ["author_id", "referenced_tweets.id", "referenced_tweets.id.author_id"] as const;
+const MEDIA_FIELDS = ["type", "url", "preview_image_url", "alt_text", "width", "height"] as const;
+const EXPANSIONS = [
+  "author_id",
+  "referenced_tweets.id",
+  "referenced_tweets.id.author_id",
+  "attachments.media_keys",
+  "referenced_tweets.id.attachments.media_keys",
+] as const;
 
 /** Max depth to walk up a reply chain */
 const MAX_CONTEXT_DEPTH = 5;
 
-export class TwitterClient {
+/** Safety cap on mention pages fetched per poll (100 mentions each) */
+const MAX_PAGES = 10;
+
+/** campaign_state key holding the mention timeline cursor (a MentionCursor as JSON) */
+const CURSOR_STATE_KEY = "twitter_mentions_cursor";
+
+/** campaign_state key holding the replies still waiting on a chain walk, with their deferral counts */
+const DEFERRED_STATE_KEY = "twitter_deferred_mentions";
+
+/** How long a cached tweet is trusted before its engagement numbers are refetched */
+const TWEET_CACHE_TTL_MS = 6 * 60 * 60 * 1000;
+
+/** How many polls a reply can wait for lookup budget before going out without full context */
+const MAX_DEFERRALS = 3;
+
+/**
+ * How far the mention timeline has been read. `gap` is the stretch a burst
+ * larger than MAX_PAGES left unread (between its since and until ids); it is
+ * read before anything newer than `newestId`.
+ */
+interface MentionCursor {
+  newestId: string;
+  gap?: { sinceId: string; untilId: string };
+}
+
+export class TwitterClient implements SignalSource {
   private client: TwitterApi;
   private handle: string;
-  private lastSeenId?: string;
+  private userId?: string;
+  private budget = new RequestBudget();
+  /** Replies whose chain walk was deferred for lack of lookup budget */
+  private deferred: RawMention[] = [];
+  private deferralCounts = new Map<string, number>();
 
   constructor(config: {
     apiKey: string;
@@ -27,120 +75,307 @@ export class TwitterClient {
       accessSecret: config.accessSecret,
     });
     this.handle = config.handle;
+    this.restoreDeferred();
   }
 
   /**
-   * Fetch recent @mentions since the last poll.
+   * Fetch all @mentions since the persisted cursor, following next_token
+   * pagination so bursts larger than one page aren't dropped.
    * For replies and quote tweets, fetches the conversation context
    * so the enricher sees what the user is actually pointing at.
+   *
+   * The returned cursor is only persisted once the caller hands it back
+   * through commitCursor, after the mentions are stored.
+   *
+   * Never throws on rate limits: if the mentions endpoint is exhausted the
+   * poll is skipped (cursor untouched), and replies whose chain walk can't
+   * be afforded are held back and retried on the next poll.
    */
-  async fetchMentions(): Promise<RawMention[]> {
-    const me = await this.client.v2.me();
-    const userId = me.data.id;
-
-    const params: Record<string, unknown> = {
-      "tweet.fields": [...TWEET_FIELDS],
-      "user.fields": [...USER_FIELDS],
-      expansions: [...EXPANSIONS],
-      max_results: 100,
-    };
-    if (this.lastSeenId) {
-      params.since_id = this.lastSeenId;
-    }
+  async fetchMentions(): Promise<MentionBatch> {
+    pruneTweetCache(TWEET_CACHE_TTL_MS);
+    const { mentions: fresh, cursor } = await this.fetchNewMentions();
 
-    const timeline = await this.client.v2.userMentionTimeline(userId, params as any);
+    // Retry previously deferred replies first, then the fresh batch (which
+    // repeats them when a crash kept the last cursor from being committed)
+    const deferredIds = new Set(this.deferred.map((m) => m.tweetId));
+    const candidates = [...this.deferred, ...fresh.filter((m) => !deferredIds.has(m.tweetId))];
+    this.deferred = [];
 
-    const users = new Map(
-      (timeline.includes?.users || []).map((u) => [u.id, u])
-    );
+    const mentions = await this.resolveConversationContext(candidates);
+    // The deferred set is saved on commit, so the cursor goes back even when it hasn't moved
+    return { mentions, cursor: cursor ?? getState(CURSOR_STATE_KEY) };
+  }
 
-    // Build a map of referenced tweets included in the response
-    const includedTweets = new Map(
-      (timeline.includes?.tweets || []).map((t) => [t.id, t])
+  /**
+   * Persist a cursor returned by fetchMentions, along with the replies that
+   * poll deferred, so a restart resumes from it without dropping them.
+   */
+  commitCursor(cursor: string) {
+    setState(CURSOR_STATE_KEY, cursor);
+    setState(
+      DEFERRED_STATE_KEY,
+      JSON.stringify(this.deferred.map((mention) => ({ mention, deferrals: this.deferralCounts.get(mention.tweetId) || 0 })))
     );
+  }
+
+  /**
+   * Reload the replies a previous run deferred and committed.
+   */
+  private restoreDeferred() {
+    const stored = getState(DEFERRED_STATE_KEY);
+    if (!stored) return;
+    try {
+      const entries: Array<{ mention: unknown; deferrals: number }> = JSON.parse(stored);
+      for (const entry of entries) {
+        const mention = reviveMention(entry.mention);
+        this.deferred.push(mention);
+        this.deferralCounts.set(mention.tweetId, entry.deferrals);
+      }
+      if (entries.length > 0) {
+        console.log(`[Twitter] Restored ${entries.length} deferred reply chain walks`);
+      }
+    } catch (err) {
+      console.warn("[Twitter] Ignoring unreadable deferred replies:", err);
+    }
+  }
+
+  /**
+   * Page through the mention timeline back to the persisted cursor, or
+   * through the gap a truncated poll left behind. Returns mentions without
+   * reply-chain context, and the cursor to resume from.
+   */
+  private async fetchNewMentions(): Promise<MentionBatch> {
+    if (!this.budget.canSpend("mentions")) {
+      const waitSec = Math.ceil(this.budget.msUntilReset("mentions") / 1000);
+      console.warn(`[Twitter] Mentions budget low, skipping poll (resets in ${waitSec}s)`);
+      return { mentions: [] };
+    }
 
+    let userId: string;
+    try {
+      userId = await this.getUserId();
+    } catch (err) {
+      if (!this.handleRateLimit("me", err)) throw err;
+      return { mentions: [] };
+    }
+
+    const cursor = readCursor(getState(CURSOR_STATE_KEY));
+    const sinceId = cursor?.gap?.sinceId ?? cursor?.newestId;
+    const untilId = cursor?.gap?.untilId;
     const mentions: RawMention[] = [];
+    let newestId: string | undefined;
+    let oldestId: string | undefined;
+    let paginationToken: string | undefined;
 
-    for (const tweet of timeline.data?.data || []) {
-      const author = users.get(tweet.author_id!);
-      const metrics = tweet.public_metrics;
-      const createdAt = author?.created_at
-        ? new Date(author.created_at)
-        : new Date();
-      const accountAgeDays = Math.floor(
-        (Date.now() - createdAt.getTime()) / (1000 * 60 * 60 * 24)
-      );
-
-      const urls = (tweet.entities?.urls || []).map(
-        (u: any) => u.expanded_url || u.url
-      );
-
-      // Parse referenced tweets to find reply parent and quoted tweet
-      const refs = (tweet as any).referenced_tweets as
-        | Array<{ type: string; id: string }>
-        | undefined;
-
-      const repliedToRef = refs?.find((r) => r.type === "replied_to");
-      const quotedRef = refs?.find((r) => r.type === "quoted");
-
-      // Build quoted tweet context from included data
-      let quotedTweet: ConversationTweet | undefined;
-      if (quotedRef) {
-        const qt = includedTweets.get(quotedRef.id);
-        if (qt) {
-          const qtAuthor = users.get(qt.author_id!);
-          quotedTweet = {
-            tweetId: qt.id,
-            text: qt.text,
-            authorHandle: qtAuthor?.username || "unknown",
-            authorFollowers: qtAuthor?.public_metrics?.followers_count || 0,
-            urls: (qt.entities?.urls || []).map((u: any) => u.expanded_url || u.url),
-            engagement: {
-              likes: qt.public_metrics?.like_count || 0,
-              retweets: qt.public_metrics?.retweet_count || 0,
-              replies: qt.public_metrics?.reply_count || 0,
-              quoteTweets: qt.public_metrics?.quote_count || 0,
-            },
-            timestamp: new Date(qt.created_at!),
-          };
-        }
+    // On a cold start (no cursor) only take the latest page rather than backfilling history
+    const maxPages = sinceId ? MAX_PAGES : 1;
+
+    for (let page = 0; page < maxPages; page++) {
+      // Running dry mid-burst: drop this poll and leave the cursor where it was,
+      // so the whole burst is re-read once the window resets
+      if (page > 0 && !this.budget.canSpend("mentions")) {
+        console.warn(`[Twitter] Mentions budget ran out after ${page} pages, deferring poll`);
+        return { mentions: [] };
+      }
+
+      const params: Record<string, unknown> = {
+        "tweet.fields": [...TWEET_FIELDS],
+        "user.fields": [...USER_FIELDS],
+        "media.fields": [...MEDIA_FIELDS],
+        expansions: [...EXPANSIONS],
+        max_results: 100,
+      };
+      if (sinceId) {
+        params.since_id = sinceId;
+      }
+      if (untilId) {
+        params.until_id = untilId;
+      }
+      if (paginationToken) {
+        params.pagination_token = paginationToken;
+      }
+
+      let timeline;
+      try {
+        timeline = await this.client.v2.userMentionTimeline(userId, params as any);
+      } catch (err) {
+        if (!this.handleRateLimit("mentions", err)) throw err;
+        return { mentions: [] };
+      }
+      this.budget.record("mentions", timeline.rateLimit);
+
+      // The first page holds the newest mention, the last page read the oldest
+      if (page === 0) {
+        newestId = timeline.meta?.newest_id;
+      }
+      oldestId = timeline.meta?.oldest_id ?? oldestId;
+
+      for (const tweet of timeline.data?.data || []) {
+        mentions.push(
+          this.buildMention(
+            tweet,
+            timeline.includes?.users || [],
+            timeline.includes?.tweets || [],
+            timeline.includes?.media || []
+          )
+        );
+      }
+
+      paginationToken = timeline.meta?.next_token;
+      if (!paginationToken) break;
+    }
+
+    // Pages still unread past MAX_PAGES sit between sinceId and the oldest
+    // mention read; keep that stretch in the cursor for the next poll
+    const truncated = !!paginationToken && !!sinceId && !!oldestId;
+    if (truncated) {
+      console.warn(`[Twitter] Stopped paginating mentions after ${maxPages} pages; older mentions in this burst are read next poll`);
+    }
+
+    let next: MentionCursor | undefined;
+    if (cursor?.gap) {
+      next = { newestId: cursor.newestId, ...(truncated ? { gap: { sinceId: sinceId!, untilId: oldestId! } } : {}) };
+    } else if (newestId) {
+      next = { newestId, ...(truncated ? { gap: { sinceId: sinceId!, untilId: oldestId! } } : {}) };
+    }
+
+    return { mentions, ...(next ? { cursor: JSON.stringify(next) } : {}) };
+  }
+
+  /**
+   * Walk reply chains for mentions that need them, within the tweet lookup budget.
+   * Mentions whose walk can't complete are deferred to the next poll, up to
+   * MAX_DEFERRALS times, after which they go out with whatever context we have.
+   */
+  private async resolveConversationContext(mentions: RawMention[]): Promise<RawMention[]> {
+    const ready: RawMention[] = [];
+
+    for (const mention of mentions) {
+      if (!mention.inReplyToId) {
+        ready.push(mention);
+        continue;
+      }
+
+      const { chain, complete } = await this.fetchConversationChain(mention.inReplyToId);
+      const deferrals = this.deferralCounts.get(mention.tweetId) || 0;
+
+      if (!complete && deferrals < MAX_DEFERRALS) {
+        this.deferralCounts.set(mention.tweetId, deferrals + 1);
+        this.deferred.push(mention);
+        continue;
       }
 
-      // For replies, walk up the conversation chain to get parent context
-      let conversationContext: ConversationTweet[] = [];
-      if (repliedToRef) {
-        conversationContext = await this.fetchConversationChain(repliedToRef.id);
-      }
-
-      mentions.push({
-        tweetId: tweet.id,
-        text: tweet.text,
-        user: {
-          id: tweet.author_id!,
-          handle: author?.username || "unknown",
-          followers: author?.public_metrics?.followers_count || 0,
-          accountAgeDays,
-        },
-        urls,
-        engagement: {
-          likes: metrics?.like_count || 0,
-          retweets: metrics?.retweet_count || 0,
-          replies: metrics?.reply_count || 0,
-          quoteTweets: metrics?.quote_count || 0,
-        },
-        timestamp: new Date(tweet.created_at!),
-        inReplyToId: repliedToRef?.id,
-        conversationContext,
-        quotedTweet,
-      });
+      this.deferralCounts.delete(mention.tweetId);
+      ready.push({ ...mention, conversationContext: chain });
     }
 
-    // Track last seen for pagination
-    if (mentions.length > 0) {
-      this.lastSeenId = mentions[0].tweetId;
+    if (this.deferred.length > 0) {
+      const waitSec = Math.ceil(this.budget.msUntilReset("tweet_lookup") / 1000);
+      console.warn(`[Twitter] Deferred ${this.deferred.length} reply chain walks (lookup budget resets in ${waitSec}s)`);
+    }
+
+    return ready;
+  }
+
+  /**
+   * Authenticated user id, fetched once and cached.
+   */
+  private async getUserId(): Promise<string> {
+    if (!this.userId) {
+      const me = await this.client.v2.me();
+      this.userId = me.data.id;
     }
+    return this.userId;
+  }
 
-    return mentions;
+  /**
+   * If `err` is a 429, mark the endpoint exhausted and return true.
+   */
+  private handleRateLimit(endpoint: string, err: unknown): boolean {
+    if (err instanceof ApiResponseError && err.rateLimitError) {
+      this.budget.recordExhausted(endpoint, err.rateLimit);
+      const waitSec = Math.ceil(this.budget.msUntilReset(endpoint) / 1000);
+      console.warn(`[Twitter] Rate limited on ${endpoint}, backing off for ${waitSec}s`);
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * Convert a timeline tweet (plus the page's expansions) into a RawMention.
+   */
+  private buildMention(
+    tweet: TweetV2,
+    includedUsers: UserV2[],
+    includedTweetList: TweetV2[],
+    includedMedia: MediaObjectV2[]
+  ): RawMention {
+    const users = new Map(includedUsers.map((u) => [u.id, u]));
+    const media = new Map(includedMedia.map((m) => [m.media_key, m]));
+
+    // Build a map of referenced tweets included in the response
+    const includedTweets = new Map(includedTweetList.map((t) => [t.id, t]));
+
+    const author = users.get(tweet.author_id!);
+    const metrics = tweet.public_metrics;
+    const createdAt = author?.created_at
+      ? new Date(author.created_at)
+      : new Date();
+    const accountAgeDays = Math.floor(
+      (Date.now() - createdAt.getTime()) / (1000 * 60 * 60 * 24)
+    );
+
+    const urls = (tweet.entities?.urls || []).map(
+      (u: any) => u.expanded_url || u.url
+    );
+
+    // Parse referenced tweets to find reply parent and quoted tweet
+    const refs = tweet.referenced_tweets;
+
+    const repliedToRef = refs?.find((r) => r.type === "replied_to");
+    const quotedRef = refs?.find((r) => r.type === "quoted");
+
+    // Cache every referenced tweet the timeline expanded, so the chain walk
+    // and other mentions in the same thread don't have to look them up again
+    for (const ref of refs || []) {
+      const included = includedTweets.get(ref.id);
+      if (included) {
+        cacheTweet(toConversationTweet(included, users.get(included.author_id!), media), repliedToId(included));
+      }
+    }
+
+    // Build quoted tweet context from included data, falling back to the cache
+    let quotedTweet: ConversationTweet | undefined;
+    if (quotedRef) {
+      const qt = includedTweets.get(quotedRef.id);
+      quotedTweet = qt
+        ? toConversationTweet(qt, users.get(qt.author_id!), media)
+        : getCachedTweet(quotedRef.id, TWEET_CACHE_TTL_MS)?.tweet;
+    }
+
+    return {
+      tweetId: tweet.id,
+      text: tweet.text,
+      user: {
+        id: tweet.author_id!,
+        handle: author?.username || "unknown",
+        followers: author?.public_metrics?.followers_count || 0,
+        accountAgeDays,
+      },
+      urls,
+      media: mediaFor(tweet, media),
+      engagement: {
+        likes: metrics?.like_count || 0,
+        retweets: metrics?.retweet_count || 0,
+        replies: metrics?.reply_count || 0,
+        quoteTweets: metrics?.quote_count || 0,
+      },
+      timestamp: new Date(tweet.created_at!),
+      inReplyToId: repliedToRef?.id,
+      // Filled in by resolveConversationContext
+      conversationContext: [],
+      quotedTweet,
+    };
   }
 
   /**
@@ -148,59 +383,70 @@ export class TwitterClient {
    * Returns tweets ordered root-first → immediate parent last.
    * This gives the enricher the full conversation that the user
    * is replying to, not just their "@VincentPlays look at this" reply.
+   *
+   * `complete` is false when the walk stopped early because the lookup
+   * budget ran low or we got rate limited, so the caller can retry later.
    */
-  private async fetchConversationChain(tweetId: string): Promise<ConversationTweet[]> {
+  private async fetchConversationChain(
+    tweetId: string
+  ): Promise<{ chain: ConversationTweet[]; complete: boolean }> {
     const chain: ConversationTweet[] = [];
     let currentId: string | undefined = tweetId;
 
     for (let depth = 0; depth < MAX_CONTEXT_DEPTH && currentId; depth++) {
+      // Ancestors already resolved for another mention in this thread cost nothing
+      const cached = getCachedTweet(currentId, TWEET_CACHE_TTL_MS);
+      if (cached) {
+        chain.unshift(cached.tweet);
+        currentId = cached.parentId;
+        continue;
+      }
+
+      if (!this.budget.canSpend("tweet_lookup")) {
+        return { chain, complete: false };
+      }
+
       try {
-        const tweet = await this.client.v2.singleTweet(currentId, {
-          "tweet.fields": [...TWEET_FIELDS],
-          "user.fields": [...USER_FIELDS],
-          expansions: ["author_id"],
-        } as any);
-
-        const tweetData = tweet.data;
-        const tweetAuthor = tweet.includes?.users?.[0];
-
-        chain.unshift({
-          tweetId: tweetData.id,
-          text: tweetData.text,
-          authorHandle: tweetAuthor?.username || "unknown",
-          authorFollowers: tweetAuthor?.public_metrics?.followers_count || 0,
-          urls: (tweetData.entities?.urls || []).map((u: any) => u.expanded_url || u.url),
-          engagement: {
-            likes: tweetData.public_metrics?.like_count || 0,
-            retweets: tweetData.public_metrics?.retweet_count || 0,
-            replies: tweetData.public_metrics?.reply_count || 0,
-            quoteTweets: tweetData.public_metrics?.quote_count || 0,
-          },
-          timestamp: new Date(tweetData.created_at!),
-        });
+        const tweet: TwitterResponse<TweetV2SingleResult> = await this.client.v2.get(
+          "tweets/:id",
+          {
+            "tweet.fields": [...TWEET_FIELDS],
+            "user.fields": [...USER_FIELDS],
+            "media.fields": [...MEDIA_FIELDS],
+            expansions: ["author_id", "attachments.media_keys"],
+          } as any,
+          { fullResponse: true, params: { id: currentId } }
+        );
+        this.budget.record("tweet_lookup", tweet.rateLimit);
+
+        const tweetData = tweet.data.data;
+        const lookupMedia = new Map((tweet.data.includes?.media || []).map((m) => [m.media_key, m]));
+        const parsed = toConversationTweet(tweetData, tweet.data.includes?.users?.[0], lookupMedia);
 
         // Check if this tweet is also a reply — keep walking up
-        const refs = (tweetData as any).referenced_tweets as
-          | Array<{ type: string; id: string }>
-          | undefined;
-        const parentRef = refs?.find((r: any) => r.type === "replied_to");
-        currentId = parentRef?.id;
+        const parentId = repliedToId(tweetData);
+        cacheTweet(parsed, parentId);
+        chain.unshift(parsed);
+        currentId = parentId;
       } catch (err) {
-        // Tweet may be deleted, protected, or rate limited — stop walking
+        if (this.handleRateLimit("tweet_lookup", err)) {
+          return { chain, complete: false };
+        }
+        // Tweet may be deleted or protected — stop walking
         console.warn(`[Twitter] Could not fetch parent tweet ${currentId}, stopping chain walk:`, err);
         break;
       }
     }
 
-    return chain;
+    return { chain, complete: true };
   }
 
   /**
-   * Post a tweet or thread.
+   * Post a tweet or thread, optionally as a reply to an existing tweet.
    */
-  async postThread(tweets: string[]): Promise<string[]> {
+  async postThread(tweets: string[], inReplyToId?: string): Promise<string[]> {
     const ids: string[] = [];
-    let replyToId: string | undefined;
+    let replyToId: string | undefined = inReplyToId;
 
     for (const text of tweets) {
       const params: any = {};
@@ -223,3 +469,67 @@ export class TwitterClient {
     return result.data.id;
   }
 }
+
+/**
+ * Parse the stored cursor. Older versions stored the newest mention id on its own.
+ */
+function readCursor(stored: string | undefined): MentionCursor | null {
+  if (!stored) return null;
+  if (!stored.startsWith("{")) return { newestId: stored };
+  try {
+    return JSON.parse(stored) as MentionCursor;
+  } catch {
+    console.warn(`[Twitter] Ignoring unreadable mentions cursor: ${stored}`);
+    return null;
+  }
+}
+
+/**
+ * Map a v2 tweet (and its expanded author) to our ConversationTweet shape.
+ */
+function toConversationTweet(
+  tweet: TweetV2,
+  author: UserV2 | undefined,
+  media: Map<string, MediaObjectV2>
+): ConversationTweet {
+  return {
+    tweetId: tweet.id,
+    text: tweet.text,
+    authorHandle: author?.username || "unknown",
+    authorFollowers: author?.public_metrics?.followers_count || 0,
+    urls: (tweet.entities?.urls || []).map((u: any) => u.expanded_url || u.url),
+    media: mediaFor(tweet, media),
+    engagement: {
+      likes: tweet.public_metrics?.like_count || 0,
+      retweets: tweet.public_metrics?.retweet_count || 0,
+      replies: tweet.public_metrics?.reply_count || 0,
+      quoteTweets: tweet.public_metrics?.quote_count || 0,
+    },
+    timestamp: new Date(tweet.created_at!),
+  };
+}
+
+/**
+ * The id of the tweet this one replies to, if any.
+ */
+function repliedToId(tweet: TweetV2): string | undefined {
+  return tweet.referenced_tweets?.find((r) => r.type === "replied_to")?.id;
+}
+
+/**
+ * Resolve a tweet's attachments.media_keys against the expanded media objects.
+ */
+function mediaFor(tweet: TweetV2, media: Map<string, MediaObjectV2>): MediaAttachment[] {
+  return (tweet.attachments?.media_keys || [])
+    .map((key) => media.get(key))
+    .filter((m): m is MediaObjectV2 => m !== undefined)
+    .map((m) => ({
+      mediaKey: m.media_key,
+      type: m.type as MediaAttachment["type"],
+      url: m.url,
+      previewImageUrl: m.preview_image_url,
+      altText: m.alt_text,
+      width: m.width,
+      height: m.height,
+    }));
+}
@@ -0,0 +1,115 @@
+import { createHash } from "crypto";
+import type { LLMStage, LLMStageConfig } from "../types/index.js";
+import type { LLMClient, LLMRequest, LLMResponse } from "./client.js";
+import { cacheLLMResponse, getCachedLLMResponse, pruneLLMCache, pruneLLMUsage } from "../store/index.js";
+
+/** How often expired responses are swept out while the client is in use */
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+
+/** How long per-call usage records are kept; only today's spend is ever read */
+const USAGE_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
+export interface LLMCacheStats {
+  hits: number;
+  misses: number;
+  /** Tokens the hits would have cost */
+  tokensSaved: number;
+}
+
+/**
+ * Content-addressed response cache in front of another LLMClient. Requests
+ * with the same stage, model, system prompt and messages within the stage's
+ * TTL are answered from SQLite instead of the model.
+ *
+ * Repair retries (see createStructured) are separate requests, so a reply
+ * that needed repairing replays the same way from the cache.
+ */
+export class CachingLLMClient implements LLMClient {
+  private inner: LLMClient;
+  private stages: Record<LLMStage, LLMStageConfig>;
+  private bypass: boolean;
+  private counters = new Map<LLMStage, LLMCacheStats>();
+  private lastPrunedAt = 0;
+
+  /**
+   * @param bypass Skip reads and writes entirely, e.g. while iterating on prompts
+   */
+  constructor(inner: LLMClient, stages: Record<LLMStage, LLMStageConfig>, options: { bypass?: boolean } = {}) {
+    this.inner = inner;
+    this.stages = stages;
+    this.bypass = options.bypass ?? false;
+    this.prune();
+  }
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    if (Date.now() - this.lastPrunedAt >= PRUNE_INTERVAL_MS) {
+      this.prune();
+    }
+
+    const ttlMs = this.stages[request.stage].cacheTtlSeconds * 1000;
+    if (this.bypass || ttlMs <= 0) {
+      return this.inner.complete(request);
+    }
+
+    const stats = this.statsFor(request.stage);
+    const key = this.keyFor(request);
+    const hit = getCachedLLMResponse<LLMResponse>(key, ttlMs);
+    if (hit) {
+      stats.hits++;
+      stats.tokensSaved += hit.usage.inputTokens + hit.usage.outputTokens;
+      return { ...hit, usage: { inputTokens: 0, outputTokens: 0 }, cached: true };
+    }
+
+    stats.misses++;
+    const response = await this.inner.complete(request);
+    // A truncated reply is worth retrying next time rather than replaying
+    if (response.stopReason !== "max_tokens") {
+      cacheLLMResponse(key, request.stage, response);
+    }
+    return response;
+  }
+
+  /**
+   * Hit/miss counts per stage since startup.
+   */
+  stats(): Partial<Record<LLMStage, LLMCacheStats>> {
+    return Object.fromEntries([...this.counters].map(([stage, s]) => [stage, { ...s }]));
+  }
+
+  /**
+   * Delete each stage's responses older than its TTL, and usage records past
+   * USAGE_RETENTION_MS. Runs at startup and then at most hourly from
+   * complete(), so a long-running process doesn't keep every response and
+   * call it has ever seen.
+   */
+  private prune() {
+    this.lastPrunedAt = Date.now();
+    let removed = 0;
+    for (const [stage, config] of Object.entries(this.stages)) {
+      removed += pruneLLMCache(config.cacheTtlSeconds * 1000, stage as LLMStage);
+    }
+    if (removed > 0) {
+      console.log(`[LLMCache] Pruned ${removed} expired responses`);
+    }
+    const usage = pruneLLMUsage(USAGE_RETENTION_MS);
+    if (usage > 0) {
+      console.log(`[LLMCache] Pruned ${usage} usage records over 30 days old`);
+    }
+  }
+
+  private statsFor(stage: LLMStage): LLMCacheStats {
+    let stats = this.counters.get(stage);
+    if (!stats) {
+      stats = { hits: 0, misses: 0, tokensSaved: 0 };
+      this.counters.set(stage, stats);
+    }
+    return stats;
+  }
+
+  private keyFor(request: LLMRequest): string {
+    const { model } = this.stages[request.stage];
+    return createHash("sha256")
+      .update(JSON.stringify([request.stage, model, request.system, request.messages]))
+      .digest("hex");
+  }
+}
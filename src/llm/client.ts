@@ -0,0 +1,82 @@
+import Anthropic from "@anthropic-ai/sdk";
+import type { LLMStage, LLMStageConfig } from "../types/index.js";
+
+export type LLMContentBlock =
+  | { type: "text"; text: string }
+  | { type: "image"; url: string };
+
+export interface LLMMessage {
+  role: "user" | "assistant";
+  content: string | LLMContentBlock[];
+}
+
+export interface LLMRequest {
+  /** Picks the model and token limit from the stage config */
+  stage: LLMStage;
+  system: string;
+  messages: LLMMessage[];
+}
+
+export interface LLMResponse {
+  text: string;
+  /** "max_tokens" means the reply was cut off */
+  stopReason: string | null;
+  model: string;
+  usage: { inputTokens: number; outputTokens: number };
+  /** Served from the response cache — no tokens were spent */
+  cached?: boolean;
+}
+
+/**
+ * The only way pipeline stages talk to a model. The campaign wires in
+ * AnthropicLLMClient (behind CachingLLMClient); tests wire in ScriptedLLMClient.
+ */
+export interface LLMClient {
+  complete(request: LLMRequest): Promise<LLMResponse>;
+}
+
+/**
+ * LLMClient backed by the Anthropic Messages API, with model and max tokens
+ * chosen per stage.
+ */
+export class AnthropicLLMClient implements LLMClient {
+  private anthropic: Anthropic;
+  private stages: Record<LLMStage, LLMStageConfig>;
+
+  constructor(apiKey: string, stages: Record<LLMStage, LLMStageConfig>) {
+    this.anthropic = new Anthropic({ apiKey });
+    this.stages = stages;
+  }
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    const { model, maxTokens } = this.stages[request.stage];
+    const response = await this.anthropic.messages.create({
+      model,
+      max_tokens: maxTokens,
+      system: request.system,
+      messages: request.messages.map((m) => ({
+        role: m.role,
+        content: typeof m.content === "string" ? m.content : m.content.map(toContentBlock),
+      })),
+    });
+
+    return {
+      text: response.content
+        .filter((b) => b.type === "text")
+        .map((b) => b.text)
+        .join(""),
+      stopReason: response.stop_reason,
+      model: response.model,
+      usage: {
+        inputTokens: response.usage.input_tokens,
+        outputTokens: response.usage.output_tokens,
+      },
+    };
+  }
+}
+
+function toContentBlock(block: LLMContentBlock): Anthropic.ContentBlockParam {
+  return block.type === "text"
+    ? { type: "text", text: block.text }
+    : { type: "image", source: { type: "url", url: block.url } };
+}
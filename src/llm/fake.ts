@@ -0,0 +1,66 @@
+import fs from "fs";
+import type { LLMStage } from "../types/index.js";
+import type { LLMClient, LLMRequest, LLMResponse } from "./client.js";
+
+/**
+ * A canned reply: raw text, an object (sent as JSON), or a function of the
+ * request for replies that depend on the input.
+ */
+export type ScriptedReply = string | object | ((request: LLMRequest) => string | object);
+
+export type LLMScript = Partial<Record<LLMStage, ScriptedReply[]>>;
+
+/**
+ * Deterministic LLMClient for tests and offline runs. Replies are consumed in
+ * order per stage; every request is recorded in `calls`.
+ */
+export class ScriptedLLMClient implements LLMClient {
+  readonly calls: LLMRequest[] = [];
+  private queues = new Map<LLMStage, ScriptedReply[]>();
+  private fallback?: ScriptedReply;
+
+  /**
+   * @param fallback Used once a stage's queue is empty; without one, an
+   *   unscripted call throws so tests notice unexpected model traffic.
+   */
+  constructor(script: LLMScript, options: { fallback?: ScriptedReply } = {}) {
+    for (const [stage, replies] of Object.entries(script)) {
+      this.queues.set(stage as LLMStage, [...(replies || [])]);
+    }
+    this.fallback = options.fallback;
+  }
+
+  /**
+   * Load a script from a JSON fixture: `{ "enrichment": [...], "clustering": [...] }`.
+   */
+  static fromFixture(filePath: string, options: { fallback?: ScriptedReply } = {}): ScriptedLLMClient {
+    const script = JSON.parse(fs.readFileSync(filePath, "utf-8")) as LLMScript;
+    return new ScriptedLLMClient(script, options);
+  }
+
+  /** Replies still queued for a stage */
+  remaining(stage: LLMStage): number {
+    return this.queues.get(stage)?.length ?? 0;
+  }
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    this.calls.push(request);
+
+    const reply = this.queues.get(request.stage)?.shift() ?? this.fallback;
+    if (reply === undefined) {
+      throw new Error(`[ScriptedLLM] No scripted reply left for stage "${request.stage}"`);
+    }
+
+    const value = typeof reply === "function" ? reply(request) : reply;
+    const text = typeof value === "string" ? value : JSON.stringify(value);
+    const prompt = request.system + request.messages.map((m) => JSON.stringify(m.content)).join("");
+
+    return {
+      text,
+      stopReason: "end_turn",
+      model: "scripted",
+      // Rough chars-per-token estimate so cost accounting has something to count
+      usage: { inputTokens: Math.ceil(prompt.length / 4), outputTokens: Math.ceil(text.length / 4) },
+    };
+  }
+}
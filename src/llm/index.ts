@@ -0,0 +1,12 @@
+export {
+  AnthropicLLMClient,
+  type LLMClient,
+  type LLMRequest,
+  type LLMResponse,
+  type LLMMessage,
+  type LLMContentBlock,
+} from "./client.js";
+export { CachingLLMClient, type LLMCacheStats } from "./cache.js";
+export { UsageMeter, estimateCostUsd, budgetLevel, degradedTo, type BudgetLevel } from "./usage.js";
+export { ScriptedLLMClient, type ScriptedReply, type LLMScript } from "./fake.js";
+export { createStructured, parseStructured, stripFences, LLMOutputError } from "./structured.js";
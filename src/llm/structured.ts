@@ -0,0 +1,96 @@
+import { z } from "zod";
+import type { LLMClient, LLMRequest } from "./client.js";
+
+/** Retries after the first attempt when the reply doesn't validate */
+const DEFAULT_MAX_RETRIES = 2;
+
+/**
+ * Thrown when a stage's LLM reply still doesn't match its schema after all
+ * retries. Stages catch this and degrade (skip the signal, no clusters, PASS)
+ * instead of failing the whole tick.
+ */
+export class LLMOutputError extends Error {
+  readonly stage: string;
+  readonly attempts: number;
+  readonly rawText: string;
+
+  constructor(stage: string, attempts: number, rawText: string, detail: string) {
+    super(`[${stage}] LLM reply failed validation after ${attempts} attempts: ${detail}`);
+    this.name = "LLMOutputError";
+    this.stage = stage;
+    this.attempts = attempts;
+    this.rawText = rawText;
+  }
+}
+
+/**
+ * Pull the JSON object out of a reply: strips markdown fences and any prose
+ * around the outermost braces.
+ */
+export function stripFences(text: string): string {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/i);
+  const body = (fenced ? fenced[1] : text).trim();
+  const start = body.indexOf("{");
+  const end = body.lastIndexOf("}");
+  return start !== -1 && end > start ? body.slice(start, end + 1) : body;
+}
+
+/**
+ * Parse and validate a reply. Returns the typed value or a readable error.
+ */
+export function parseStructured<T extends z.ZodType>(
+  text: string,
+  schema: T
+): { ok: true; value: z.infer<T> } | { ok: false; error: string } {
+  let json: unknown;
+  try {
+    json = JSON.parse(stripFences(text));
+  } catch (err) {
+    return { ok: false, error: `not valid JSON (${(err as Error).message})` };
+  }
+  const result = schema.safeParse(json);
+  return result.success
+    ? { ok: true, value: result.data }
+    : { ok: false, error: z.prettifyError(result.error) };
+}
+
+/**
+ * Call the model and validate its JSON reply against `schema`. On failure the
+ * validation error is fed back to the model as a follow-up turn, up to
+ * `maxRetries` times, then an LLMOutputError is thrown.
+ */
+export async function createStructured<T extends z.ZodType>(
+  llm: LLMClient,
+  request: LLMRequest,
+  schema: T,
+  options: { maxRetries?: number } = {}
+): Promise<z.infer<T>> {
+  const maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+  const messages = [...request.messages];
+  let lastText = "";
+  let lastError = "";
+
+  for (let attempt = 0; attempt <= maxRetries; attempt++) {
+    const response = await llm.complete({ ...request, messages });
+    lastText = response.text;
+
+    const result = parseStructured(lastText, schema);
+    if (result.ok) return result.value;
+
+    lastError =
+      response.stopReason === "max_tokens"
+        ? `reply was cut off at the token limit — answer more concisely. ${result.error}`
+        : result.error;
+    console.warn(`[${request.stage}] Invalid LLM reply (attempt ${attempt + 1}/${maxRetries + 1}): ${lastError}`);
+
+    messages.push(
+      { role: "assistant", content: lastText || "(empty reply)" },
+      {
+        role: "user",
+        content: `Your previous reply was invalid:\n${lastError}\n\nReply again with corrected JSON only, matching the required format exactly.`,
+      }
+    );
+  }
+
+  throw new LLMOutputError(request.stage, maxRetries + 1, lastText, lastError);
+}
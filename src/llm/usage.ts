@@ -0,0 +1,123 @@
+import type { LLMStage, LLMUsageTotals } from "../types/index.js";
+import type { LLMClient, LLMRequest, LLMResponse } from "./client.js";
+import { recordLLMUsage, getLLMSpendToday } from "../store/index.js";
+
+/** USD per million tokens, matched by model-id prefix */
+const MODEL_PRICING: Array<{ prefix: string; input: number; output: number }> = [
+  { prefix: "claude-opus-4-5", input: 5, output: 25 },
+  { prefix: "claude-opus-4", input: 15, output: 75 },
+  { prefix: "claude-sonnet-4", input: 3, output: 15 },
+  { prefix: "claude-haiku-4-5", input: 1, output: 5 },
+  { prefix: "claude-3-5-haiku", input: 0.8, output: 4 },
+];
+
+/** Unknown models (including test doubles) are billed like Sonnet so budgets still bite */
+const FALLBACK_PRICING = { input: 3, output: 15 };
+
+/**
+ * How far the campaign has degraded to stay inside the daily LLM budget.
+ * Each level includes the ones before it:
+ * - skip_commentary: stop publishing PASS/WATCH threads
+ * - skip_enrichment: hold new mentions instead of enriching them
+ * - pause_scoring: no clustering or edge scoring until the budget resets
+ */
+export type BudgetLevel = "normal" | "skip_commentary" | "skip_enrichment" | "pause_scoring";
+
+const BUDGET_LEVELS: BudgetLevel[] = ["normal", "skip_commentary", "skip_enrichment", "pause_scoring"];
+
+/** Share of the daily budget spent at which each level kicks in */
+const BUDGET_THRESHOLDS: Array<[number, BudgetLevel]> = [
+  [1.0, "pause_scoring"],
+  [0.9, "skip_enrichment"],
+  [0.8, "skip_commentary"],
+];
+
+export function estimateCostUsd(model: string, inputTokens: number, outputTokens: number): number {
+  const pricing = MODEL_PRICING.find((p) => model.startsWith(p.prefix)) ?? FALLBACK_PRICING;
+  return (inputTokens * pricing.input + outputTokens * pricing.output) / 1_000_000;
+}
+
+export function budgetLevel(spentUsd: number, budgetUsd: number): BudgetLevel {
+  if (budgetUsd <= 0) return "normal";
+  const share = spentUsd / budgetUsd;
+  return BUDGET_THRESHOLDS.find(([threshold]) => share >= threshold)?.[1] ?? "normal";
+}
+
+/**
+ * Whether `level` has degraded at least as far as `target`.
+ */
+export function degradedTo(level: BudgetLevel, target: BudgetLevel): boolean {
+  return BUDGET_LEVELS.indexOf(level) >= BUDGET_LEVELS.indexOf(target);
+}
+
+function emptyTotals(): LLMUsageTotals {
+  return { calls: 0, cachedCalls: 0, inputTokens: 0, outputTokens: 0, costUsd: 0 };
+}
+
+/**
+ * Records the usage of every call made through it, both to the store (for
+ * daily totals and the budget) and in memory for the current tick.
+ */
+export class UsageMeter implements LLMClient {
+  private inner: LLMClient;
+  private tick = new Map<LLMStage, LLMUsageTotals>();
+
+  constructor(inner: LLMClient) {
+    this.inner = inner;
+  }
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    const response = await this.inner.complete(request);
+    const { inputTokens, outputTokens } = response.usage;
+    const costUsd = estimateCostUsd(response.model, inputTokens, outputTokens);
+
+    recordLLMUsage({
+      stage: request.stage,
+      model: response.model,
+      inputTokens,
+      outputTokens,
+      costUsd,
+      cached: response.cached ?? false,
+    });
+
+    let totals = this.tick.get(request.stage);
+    if (!totals) {
+      totals = emptyTotals();
+      this.tick.set(request.stage, totals);
+    }
+    totals.calls++;
+    if (response.cached) totals.cachedCalls++;
+    totals.inputTokens += inputTokens;
+    totals.outputTokens += outputTokens;
+    totals.costUsd += costUsd;
+
+    return response;
+  }
+
+  /** Reset the per-tick counters */
+  startTick() {
+    this.tick.clear();
+  }
+
+  /** Usage per stage since the last startTick() */
+  tickUsage(): Partial<Record<LLMStage, LLMUsageTotals>> {
+    return Object.fromEntries([...this.tick].map(([stage, t]) => [stage, { ...t }]));
+  }
+
+  /** Usage across all stages since the last startTick() */
+  tickTotal(): LLMUsageTotals {
+    const total = emptyTotals();
+    for (const t of this.tick.values()) {
+      total.calls += t.calls;
+      total.cachedCalls += t.cachedCalls;
+      total.inputTokens += t.inputTokens;
+      total.outputTokens += t.outputTokens;
+      total.costUsd += t.costUsd;
+    }
+    return total;
+  }
+
+  spentToday(): number {
+    return getLLMSpendToday();
+  }
+}
@@ -0,0 +1,192 @@
+import type { EnrichedSignal } from "../types/index.js";
+import { getSignalsByIds, getContributorFirstSeen, getCampaignFirstSeen } from "../store/index.js";
+import { tokenize, shingles, jaccard } from "../utils/text.js";
+
+/** Need at least this many distinct accounts before coordination means anything */
+const MIN_ACCOUNTS = 3;
+
+/** Window for burst detection */
+const BURST_WINDOW_MS = 30 * 60 * 1000;
+
+/** Accounts created within this many days of each other count as an age cluster */
+const AGE_BUCKET_DAYS = 30;
+
+/** A contributor first seen this close to the group's first signal is a newcomer */
+const NEWCOMER_WINDOW_MS = 48 * 60 * 60 * 1000;
+
+/** Accounts younger than this count as fresh */
+const FRESH_ACCOUNT_DAYS = 90;
+
+/**
+ * Burst timing and newcomers are what organic breaking news looks like too,
+ * so they only count in proportion to this evidence of coordination: mean
+ * text similarity, or the share of fresh accounts, relative to these levels.
+ */
+const SIMILAR_TEXT_EVIDENCE = 0.3;
+const FRESH_ACCOUNT_EVIDENCE = 0.5;
+
+/** A component above this is called out in the reasons */
+const REASON_THRESHOLD = 0.6;
+
+const COMPONENT_WEIGHTS = {
+  accountAge: 0.2,
+  burst: 0.25,
+  newcomers: 0.2,
+  audienceOverlap: 0.1,
+  textSimilarity: 0.25,
+};
+
+export interface BrigadeAssessment {
+  /** 0 = organic, 1 = almost certainly coordinated */
+  score: number;
+  components: Record<keyof typeof COMPONENT_WEIGHTS, number>;
+  reasons: string[];
+  handles: string[];
+  signalIds: string[];
+}
+
+/**
+ * Score how likely a group of signals is a coordinated push rather than
+ * independent contributors. Folded duplicates are expanded back out first —
+ * copy-paste is exactly what a brigade looks like.
+ *
+ * Components (each 0-1):
+ * - accountAge: largest share of accounts created within the same ~month
+ * - burst: largest share of signals landing in one 30-minute window
+ * - newcomers: share of accounts whose first-ever signal is this push,
+ *   discounted while the campaign itself is too young for anyone to be a regular
+ * - audienceOverlap: largest share of accounts in the same follower-count band,
+ *   a proxy for follower-graph overlap between farmed accounts
+ * - textSimilarity: mean pairwise similarity of the tweet text
+ *
+ * burst and newcomers only add to the score as far as textSimilarity or a
+ * share of fresh accounts backs them up (see SIMILAR_TEXT_EVIDENCE).
+ */
+export function assessBrigading(signals: EnrichedSignal[]): BrigadeAssessment {
+  const expanded = expandDuplicates(signals);
+  const byUser = new Map<string, EnrichedSignal>();
+  for (const s of expanded) {
+    if (!byUser.has(s.raw.user.id)) byUser.set(s.raw.user.id, s);
+  }
+  const accounts = [...byUser.values()];
+
+  const empty = { accountAge: 0, burst: 0, newcomers: 0, audienceOverlap: 0, textSimilarity: 0 };
+  const base = {
+    handles: accounts.map((s) => s.raw.user.handle),
+    signalIds: expanded.map((s) => s.id),
+  };
+  if (accounts.length < MIN_ACCOUNTS) {
+    return { score: 0, components: empty, reasons: [], ...base };
+  }
+
+  const components = {
+    accountAge: accountAgeClustering(accounts),
+    burst: burstShare(expanded),
+    newcomers: newcomerShare(accounts, expanded),
+    audienceOverlap: followerBandShare(accounts),
+    textSimilarity: meanTextSimilarity(expanded),
+  };
+
+  const evidence = Math.min(
+    1,
+    Math.max(
+      components.textSimilarity / SIMILAR_TEXT_EVIDENCE,
+      freshAccountShare(accounts) / FRESH_ACCOUNT_EVIDENCE
+    )
+  );
+  const score = (Object.keys(COMPONENT_WEIGHTS) as Array<keyof typeof COMPONENT_WEIGHTS>).reduce(
+    (sum, k) => sum + COMPONENT_WEIGHTS[k] * components[k] * (k === "burst" || k === "newcomers" ? evidence : 1),
+    0
+  );
+
+  const reasons: string[] = [];
+  const pct = (x: number) => `${Math.round(x * 100)}%`;
+  if (components.accountAge > REASON_THRESHOLD)
+    reasons.push(`${pct(components.accountAge)} of accounts were created within the same month`);
+  if (components.burst > REASON_THRESHOLD)
+    reasons.push(`${pct(components.burst)} of signals arrived within 30 minutes`);
+  if (components.newcomers > REASON_THRESHOLD)
+    reasons.push(`${pct(components.newcomers)} of accounts had never signalled before this push`);
+  if (components.audienceOverlap > REASON_THRESHOLD)
+    reasons.push(`${pct(components.audienceOverlap)} of accounts have near-identical follower counts`);
+  if (components.textSimilarity > REASON_THRESHOLD)
+    reasons.push(`tweet text is ${pct(components.textSimilarity)} similar on average`);
+
+  return { score, components, reasons, ...base };
+}
+
+function expandDuplicates(signals: EnrichedSignal[]): EnrichedSignal[] {
+  const duplicateIds = signals.flatMap((s) => s.duplicates || []);
+  const seen = new Set(signals.map((s) => s.id));
+  const extra = getSignalsByIds(duplicateIds.filter((id) => !seen.has(id)));
+  return [...signals, ...extra];
+}
+
+function accountAgeClustering(accounts: EnrichedSignal[]): number {
+  const buckets = new Map<number, number>();
+  for (const s of accounts) {
+    // Bucket by approximate creation date, not age, so it's stable over time
+    const createdDay = Math.floor(s.raw.timestamp.getTime() / 86_400_000) - s.raw.user.accountAgeDays;
+    const bucket = Math.floor(createdDay / AGE_BUCKET_DAYS);
+    buckets.set(bucket, (buckets.get(bucket) || 0) + 1);
+  }
+  return Math.max(...buckets.values()) / accounts.length;
+}
+
+function burstShare(signals: EnrichedSignal[]): number {
+  const times = signals.map((s) => s.raw.timestamp.getTime()).sort((a, b) => a - b);
+  let best = 0;
+  let start = 0;
+  for (let end = 0; end < times.length; end++) {
+    while (times[end] - times[start] > BURST_WINDOW_MS) start++;
+    best = Math.max(best, end - start + 1);
+  }
+  return best / times.length;
+}
+
+/**
+ * Share of accounts first seen within NEWCOMER_WINDOW_MS of the push,
+ * scaled by how long the campaign had been running before it: nobody can
+ * be a regular in the first window, so the share only counts in full once
+ * the campaign is two windows old.
+ */
+function newcomerShare(accounts: EnrichedSignal[], signals: EnrichedSignal[]): number {
+  const firstSignal = Math.min(...signals.map((s) => s.raw.timestamp.getTime()));
+  const campaignStart = Math.min(getCampaignFirstSeen()?.getTime() ?? firstSignal, firstSignal);
+  const maturity = Math.min(1, Math.max(0, (firstSignal - campaignStart - NEWCOMER_WINDOW_MS) / NEWCOMER_WINDOW_MS));
+  if (maturity === 0) return 0;
+
+  const firstSeen = getContributorFirstSeen(accounts.map((s) => s.raw.user.id));
+  const newcomers = accounts.filter((s) => {
+    const seen = firstSeen.get(s.raw.user.id)?.getTime() ?? s.raw.timestamp.getTime();
+    return seen >= firstSignal - NEWCOMER_WINDOW_MS;
+  });
+  return (newcomers.length / accounts.length) * maturity;
+}
+
+function freshAccountShare(accounts: EnrichedSignal[]): number {
+  return accounts.filter((s) => s.raw.user.accountAgeDays < FRESH_ACCOUNT_DAYS).length / accounts.length;
+}
+
+function followerBandShare(accounts: EnrichedSignal[]): number {
+  const bands = new Map<number, number>();
+  for (const s of accounts) {
+    // Half-octave bands: 100-141, 141-200, ...
+    const band = Math.floor(2 * Math.log2(1 + s.raw.user.followers));
+    bands.set(band, (bands.get(band) || 0) + 1);
+  }
+  return Math.max(...bands.values()) / accounts.length;
+}
+
+function meanTextSimilarity(signals: EnrichedSignal[]): number {
+  const sets = signals.map((s) => shingles(tokenize(s.raw.text), 2));
+  let total = 0;
+  let pairs = 0;
+  for (let i = 0; i < sets.length; i++) {
+    for (let j = i + 1; j < sets.length; j++) {
+      total += jaccard(sets[i], sets[j]);
+      pairs++;
+    }
+  }
+  return pairs > 0 ? total / pairs : 0;
+}
@@ -0,0 +1,162 @@
+import type { CampaignConfig, PolymarketEvent, PolymarketMarket } from "../types/index.js";
+import { gammaApi, type PolymarketApi } from "./polymarket.js";
+import { saveCatalog, retireUnsynced, getCatalogSize, getState, setState } from "../store/index.js";
+
+/** Page size for both sync passes */
+const PAGE_SIZE = 100;
+
+/** Safety stop for a pass that never sees a short page */
+const MAX_PAGES = 500;
+
+/** Pause between pages, to stay well inside the API's rate limits */
+const PAGE_DELAY_MS = 250;
+
+const FULL_SYNC_KEY = "catalog_full_sync_at";
+const CURSOR_KEY = "catalog_updated_cursor";
+
+/**
+ * Keeps a local copy of every open Polymarket market and event in SQLite,
+ * so scoring and search never wait on the API. A full pass pages through
+ * all open events (with tags, category, end dates and negRisk grouping)
+ * and retires whatever neither it nor the previous full pass saw; between
+ * full passes, an incremental pass picks up markets changed since the last one.
+ */
+export class MarketCatalog {
+  private config: CampaignConfig;
+  private polymarket: PolymarketApi;
+  private running = false;
+
+  constructor(config: CampaignConfig, polymarket: PolymarketApi = gammaApi) {
+    this.config = config;
+    this.polymarket = polymarket;
+  }
+
+  /**
+   * Sync in the background until stop() — never blocks the campaign loop.
+   */
+  start() {
+    if (this.running) return;
+    this.running = true;
+    void this.loop();
+  }
+
+  stop() {
+    this.running = false;
+  }
+
+  /**
+   * Run whichever pass is due: a full pass when the catalog is empty or the
+   * last full pass is older than catalogFullSyncHours, otherwise an
+   * incremental one.
+   */
+  async sync() {
+    const lastFull = getState(FULL_SYNC_KEY);
+    const fullDue =
+      !lastFull ||
+      getCatalogSize().markets === 0 ||
+      Date.now() - new Date(lastFull).getTime() > this.config.catalogFullSyncHours * 60 * 60 * 1000;
+
+    if (fullDue) {
+      await this.fullSync();
+    } else {
+      await this.incrementalSync();
+    }
+  }
+
+  /**
+   * Page through every open event, then close whatever this pass and the
+   * previous one both missed. Pages are by offset, so an event closing
+   * mid-pass shifts the rest down and one open event can slip between
+   * pages; it's only retired if the next pass misses it too.
+   */
+  async fullSync() {
+    const startedAt = new Date();
+    let events = 0;
+    let markets = 0;
+    let complete = false;
+    let newest = "";
+
+    for (let page = 0; page < MAX_PAGES; page++) {
+      const batch = await this.polymarket.fetchEventsPage(page * PAGE_SIZE, PAGE_SIZE);
+      saveCatalog(batch.events, batch.markets);
+      events += batch.events.length;
+      markets += batch.markets.length;
+      newest = latest(newest, batch.events, batch.markets);
+
+      if (batch.fetched < PAGE_SIZE) {
+        complete = true;
+        break;
+      }
+      await this.sleep(PAGE_DELAY_MS);
+    }
+
+    // A pass cut short would retire everything it didn't reach
+    if (!complete) {
+      console.warn(`[Catalog] Full sync stopped after ${events} events; keeping unseen markets open`);
+      return;
+    }
+
+    // Anything synced since the previous full pass began was seen by one of the two
+    const previous = getState(FULL_SYNC_KEY);
+    const retired = previous ? retireUnsynced(new Date(previous)) : { events: 0, markets: 0 };
+    setState(FULL_SYNC_KEY, startedAt.toISOString());
+    if (newest) setState(CURSOR_KEY, newest);
+    console.log(
+      `[Catalog] Full sync: ${events} events, ${markets} markets; retired ${retired.markets} markets and ${retired.events} events`
+    );
+  }
+
+  /**
+   * Upsert markets changed since the last pass, newest first, stopping at
+   * the first one already seen.
+   */
+  async incrementalSync() {
+    const cursor = getState(CURSOR_KEY) || "";
+    const changed: PolymarketMarket[] = [];
+
+    for (let page = 0; page < MAX_PAGES; page++) {
+      const batch = await this.polymarket.fetchUpdatedMarketsPage(page * PAGE_SIZE, PAGE_SIZE);
+      const fresh = batch.filter((m) => m.updatedAt && (!cursor || isAfter(m.updatedAt, cursor)));
+      changed.push(...fresh);
+
+      if (fresh.length < batch.length || batch.length < PAGE_SIZE) break;
+      await this.sleep(PAGE_DELAY_MS);
+    }
+
+    if (changed.length === 0) return;
+    saveCatalog([], changed);
+    setState(CURSOR_KEY, latest(cursor, [], changed));
+    console.log(`[Catalog] Incremental sync: ${changed.length} markets changed`);
+  }
+
+  private async loop() {
+    while (this.running) {
+      try {
+        await this.sync();
+      } catch (err) {
+        console.error("[Catalog] Sync failed:", err);
+      }
+      // Unref'd so waiting for the next pass never keeps the process alive on its own
+      await new Promise((resolve) => setTimeout(resolve, this.config.catalogSyncMinutes * 60 * 1000).unref());
+    }
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+  }
+}
+
+/**
+ * The latest `updatedAt` among `current` and the given rows.
+ */
+function latest(current: string, events: PolymarketEvent[], markets: PolymarketMarket[]): string {
+  let newest = current;
+  for (const row of [...events, ...markets]) {
+    if (row.updatedAt && (!newest || isAfter(row.updatedAt, newest))) newest = row.updatedAt;
+  }
+  return newest;
+}
+
+function isAfter(a: string, b: string): boolean {
+  return new Date(a).getTime() > new Date(b).getTime();
+}
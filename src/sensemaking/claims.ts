@@ -0,0 +1,88 @@
+import type { EnrichedSignal, PolymarketMarket, ClaimQuantity, ClaimDate } from "../types/index.js";
+
+/** Markets spell out what tweets abbreviate */
+const ASSET_NAMES: Record<string, string[]> = {
+  BTC: ["bitcoin"],
+  ETH: ["ethereum", "ether"],
+  SOL: ["solana"],
+  XRP: ["ripple"],
+  DOGE: ["dogecoin"],
+  SPX: ["s&p 500", "s&p"],
+  NDX: ["nasdaq"],
+};
+
+/** Facts per cluster kept in the prompt */
+const MAX_FACTS = 8;
+
+export interface ClaimFacts {
+  assets: string[];
+  entities: string[];
+  quantities: ClaimQuantity[];
+  deadlines: ClaimDate[];
+}
+
+/**
+ * The structured fields of a group of signals, most-mentioned first, so
+ * market mapping can match on assets, thresholds and deadlines directly.
+ */
+export function summarizeClaims(signals: EnrichedSignal[]): ClaimFacts {
+  const quantities = new Map<string, ClaimQuantity>();
+  const dates = new Map<string, ClaimDate>();
+  for (const s of signals) {
+    for (const q of s.quantities) {
+      quantities.set(`${q.subject.toLowerCase()}|${q.comparator || ""}|${q.value}|${q.unit}`, q);
+    }
+    for (const d of s.dates) {
+      dates.set(`${d.date}|${d.kind}`, d);
+    }
+  }
+
+  return {
+    assets: byFrequency(signals.flatMap((s) => s.assets)),
+    entities: byFrequency(signals.flatMap((s) => s.entities)),
+    quantities: [...quantities.values()].slice(0, MAX_FACTS),
+    deadlines: [...dates.values()]
+      .sort((a, b) => (a.kind === b.kind ? a.date.localeCompare(b.date) : a.kind === "deadline" ? -1 : 1))
+      .slice(0, MAX_FACTS),
+  };
+}
+
+/**
+ * How many of the cluster's assets and entities a market question names.
+ */
+export function claimMatchScore(market: PolymarketMarket, facts: ClaimFacts): number {
+  const question = market.question.toLowerCase();
+  const words = new Set(question.split(/[^a-z0-9&$]+/).filter(Boolean));
+
+  let score = 0;
+  for (const asset of facts.assets) {
+    const names = assetNames(asset);
+    if (names.some((n) => (n.includes(" ") || n.includes("&") ? question.includes(n) : words.has(n)))) score++;
+  }
+  for (const entity of facts.entities) {
+    if (entity.length > 2 && question.includes(entity.toLowerCase())) score++;
+  }
+  return score;
+}
+
+/**
+ * An asset's ticker plus the names markets spell it out as, lowercase.
+ */
+export function assetNames(asset: string): string[] {
+  return [asset.toLowerCase(), ...(ASSET_NAMES[asset.toUpperCase()] || [])];
+}
+
+function byFrequency(values: string[]): string[] {
+  const counts = new Map<string, { value: string; count: number }>();
+  for (const v of values) {
+    const key = v.trim().toLowerCase();
+    if (!key) continue;
+    const entry = counts.get(key) || { value: v.trim(), count: 0 };
+    entry.count++;
+    counts.set(key, entry);
+  }
+  return [...counts.values()]
+    .sort((a, b) => b.count - a.count)
+    .slice(0, MAX_FACTS)
+    .map((e) => e.value);
+}
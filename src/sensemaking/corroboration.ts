@@ -0,0 +1,108 @@
+import type { EnrichedSignal } from "../types/index.js";
+import { contentWords, jaccard } from "../utils/text.js";
+import { signalWeight } from "../utils/weight.js";
+import { textShingles, copyPasted } from "./dedup.js";
+
+/** Claim word overlap at which two signals back the same claim, given a shared topic */
+const CLAIM_OVERLAP_WITH_TOPIC = 0.3;
+
+/** Claim word overlap at which two signals back the same claim on wording alone */
+const CLAIM_OVERLAP = 0.5;
+
+/** Link domains that say nothing about where a claim came from */
+const NEUTRAL_DOMAINS = new Set(["twitter.com", "x.com", "t.co", "polymarket.com"]);
+
+/**
+ * Link each signal to earlier signals backing the same claim from an
+ * independent source. A source is independent when it has a different
+ * author, cites no link domain in common, points at no tweet in common
+ * (parent chain or quoted tweet) and isn't a copy-paste of the same text —
+ * otherwise it's one source seen twice.
+ *
+ * Signals are processed oldest first, so signals in the same batch can
+ * corroborate each other. Returns the signals with `corroboration` set and
+ * weights recomputed with the corroboration count.
+ */
+export function corroborateSignals(signals: EnrichedSignal[], earlier: EnrichedSignal[]): EnrichedSignal[] {
+  const pool = earlier.map(toEvidence);
+  const ordered = [...signals].sort((a, b) => a.raw.timestamp.getTime() - b.raw.timestamp.getTime());
+  const result = new Map<string, EnrichedSignal>();
+
+  for (const signal of ordered) {
+    const evidence = toEvidence(signal);
+    const time = signal.raw.timestamp.getTime();
+
+    // Corroborators must be independent of each other too — two tweets
+    // citing the same article are one source, not two
+    const sources: Evidence[] = [];
+    for (const other of pool) {
+      if (other.time > time || !backsSameClaim(evidence, other)) continue;
+      if ([evidence, ...sources].every((e) => independent(e, other))) {
+        sources.push(other);
+      }
+    }
+
+    const corroboration = sources.map((e) => e.id);
+    result.set(signal.id, {
+      ...signal,
+      corroboration,
+      weight: signalWeight(signal.raw, {
+        injectionFlagged: signal.injectionFlags.length > 0,
+        corroborations: corroboration.length,
+      }),
+    });
+    pool.push(evidence);
+  }
+
+  return signals.map((s) => result.get(s.id)!);
+}
+
+interface Evidence {
+  id: string;
+  authorId: string;
+  time: number;
+  claimWords: Set<string>;
+  topics: Set<string>;
+  domains: Set<string>;
+  tweetIds: Set<string>;
+  text: Set<string> | null;
+}
+
+function toEvidence(signal: EnrichedSignal): Evidence {
+  const raw = signal.raw;
+  const tweets = [...raw.conversationContext, ...(raw.quotedTweet ? [raw.quotedTweet] : [])];
+  const urls = [...raw.urls, ...tweets.flatMap((t) => t.urls)];
+
+  return {
+    id: signal.id,
+    authorId: raw.user.id,
+    time: raw.timestamp.getTime(),
+    claimWords: new Set(contentWords(signal.coreClaim)),
+    topics: new Set(signal.topics.map((t) => t.toLowerCase())),
+    domains: new Set(urls.map(domainOf).filter((d): d is string => !!d && !NEUTRAL_DOMAINS.has(d))),
+    tweetIds: new Set([...tweets.map((t) => t.tweetId), ...(raw.inReplyToId ? [raw.inReplyToId] : [])]),
+    text: textShingles(signal),
+  };
+}
+
+function backsSameClaim(a: Evidence, b: Evidence): boolean {
+  const overlap = jaccard(a.claimWords, b.claimWords);
+  const sharedTopic = [...a.topics].some((t) => b.topics.has(t));
+  return overlap >= CLAIM_OVERLAP || (sharedTopic && overlap >= CLAIM_OVERLAP_WITH_TOPIC);
+}
+
+function independent(a: Evidence, b: Evidence): boolean {
+  if (a.authorId === b.authorId) return false;
+  for (const d of a.domains) if (b.domains.has(d)) return false;
+  for (const t of a.tweetIds) if (b.tweetIds.has(t)) return false;
+  if (copyPasted(a.text, b.text)) return false;
+  return true;
+}
+
+function domainOf(url: string): string | undefined {
+  try {
+    return new URL(url).hostname.replace(/^www\./, "").toLowerCase();
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,105 @@
+import type { EnrichedSignal } from "../types/index.js";
+import { tokenize, shingles, jaccard } from "../utils/text.js";
+
+/** Tweet text this similar (3-word shingle Jaccard) is treated as copy-paste */
+const TEXT_SIMILARITY_THRESHOLD = 0.8;
+
+/**
+ * Core claims are LLM paraphrases, so independent sources reporting the same
+ * news can look alike — require a near-exact match before folding on them.
+ */
+const CLAIM_SIMILARITY_THRESHOLD = 0.9;
+
+/** Ignore text matches on very short tweets ("look", "@VincentPlays this") */
+const MIN_TEXT_TOKENS = 4;
+
+/**
+ * Fold signals that aren't independent evidence into a single unit:
+ * - identical or near-identical tweet text (copy-paste)
+ * - identical or near-identical core claim
+ * - replies under the same parent tweet, or quotes of the same tweet
+ *
+ * Each unit is represented by its earliest signal (the first to flag it),
+ * carrying the ids of the folded signals in `duplicates` and a combined weight:
+ * the strongest signal's weight plus a log-dampened share of the rest.
+ */
+export function dedupeSignals(signals: EnrichedSignal[]): EnrichedSignal[] {
+  const parent = signals.map((_, i) => i);
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+  const union = (a: number, b: number) => {
+    parent[find(a)] = find(b);
+  };
+
+  // Shared parent / quoted tweet
+  const byReferencedTweet = new Map<string, number>();
+  signals.forEach((s, i) => {
+    for (const ref of referencedTweetIds(s)) {
+      const seen = byReferencedTweet.get(ref);
+      if (seen === undefined) byReferencedTweet.set(ref, i);
+      else union(i, seen);
+    }
+  });
+
+  // Near-identical text or claim
+  const texts = signals.map(textShingles);
+  const claimShingles = signals.map((s) => shingles(tokenize(s.coreClaim)));
+
+  for (let i = 0; i < signals.length; i++) {
+    for (let j = i + 1; j < signals.length; j++) {
+      if (find(i) === find(j)) continue;
+      if (
+        copyPasted(texts[i], texts[j]) ||
+        jaccard(claimShingles[i], claimShingles[j]) >= CLAIM_SIMILARITY_THRESHOLD
+      ) {
+        union(i, j);
+      }
+    }
+  }
+
+  const groups = new Map<number, EnrichedSignal[]>();
+  signals.forEach((s, i) => {
+    const root = find(i);
+    groups.set(root, [...(groups.get(root) || []), s]);
+  });
+
+  return [...groups.values()].map(foldGroup);
+}
+
+/**
+ * Shingles of a signal's tweet text, or null when it's too short to compare.
+ */
+export function textShingles(signal: EnrichedSignal): Set<string> | null {
+  const tokens = tokenize(signal.raw.text);
+  return tokens.length >= MIN_TEXT_TOKENS ? shingles(tokens) : null;
+}
+
+/**
+ * Whether two tweet texts (as `textShingles`) are near-identical: copy-paste.
+ */
+export function copyPasted(a: Set<string> | null, b: Set<string> | null): boolean {
+  return !!a && !!b && jaccard(a, b) >= TEXT_SIMILARITY_THRESHOLD;
+}
+
+function foldGroup(group: EnrichedSignal[]): EnrichedSignal {
+  if (group.length === 1) return group[0];
+
+  const earliest = group.reduce((a, b) => (b.raw.timestamp < a.raw.timestamp ? b : a));
+  const weights = group.map((s) => s.weight).sort((a, b) => b - a);
+  const rest = weights.slice(1).reduce((sum, w) => sum + w, 0);
+
+  return {
+    ...earliest,
+    weight: weights[0] + Math.log2(1 + rest),
+    duplicates: group.filter((s) => s !== earliest).map((s) => s.id),
+  };
+}
+
+/**
+ * Tweets this signal points at: the immediate reply parent and any quoted tweet.
+ */
+function referencedTweetIds(signal: EnrichedSignal): string[] {
+  const ids: string[] = [];
+  if (signal.raw.inReplyToId) ids.push(signal.raw.inReplyToId);
+  if (signal.raw.quotedTweet) ids.push(signal.raw.quotedTweet.tweetId);
+  return ids;
+}
@@ -1,116 +1,368 @@
-import Anthropic from "@anthropic-ai/sdk";
+import { z } from "zod";
 import type {
   TopicCluster,
   PolymarketMarket,
+  MarketOutcome,
   EdgeOpportunity,
+  StanceTally,
 } from "../types/index.js";
-import { fetchActiveMarkets } from "./polymarket.js";
+import { gammaApi, type PolymarketApi } from "./polymarket.js";
+import { summarizeClaims, claimMatchScore, type ClaimFacts } from "./claims.js";
+import { momentumFactor } from "./velocity.js";
+import { retrieveMarkets } from "./retrieval.js";
+import { getCatalogSize, getCatalogMarkets, getEventMarkets } from "../store/index.js";
+import { tallyStances } from "./stance.js";
+import { marketOutcomes, findOutcome, directionLabel, outcomeLegs, normalizeAcross, legKey, type OutcomeLeg } from "./outcomes.js";
+import { UNTRUSTED_CONTENT_NOTICE, wrapUntrusted, flaggedWeightShare } from "../utils/injection.js";
+import { createStructured, LLMOutputError, type LLMClient, type LLMRequest } from "../llm/index.js";
+
+/** Skip clusters where most of the weight comes from injection-flagged signals */
+const MAX_FLAGGED_WEIGHT_SHARE = 0.5;
+
+/** Implied probabilities this extreme are never trusted from crowd signals */
+const MIN_IMPLIED_PROBABILITY = 0.02;
+const MAX_IMPLIED_PROBABILITY = 0.98;
+
+/** Largest believable gap between the signal-implied probability and the market */
+const MAX_IMPLIED_SHIFT = 0.5;
+
+/** Candidate markets per cluster sent to the model, besides the ones contributors linked */
+const MARKET_CANDIDATES = 30;
+
+/** Outcomes of a multi-market event shown to the model, highest priced first */
+const MAX_EVENT_OUTCOMES = 12;
+
+/** Signals listed to the model for stance scoring, heaviest first */
+const MAX_STANCE_SIGNALS = 25;
+
+/** Weighted stance share against the mapped outcome above which the mapping is rejected */
+const MAX_OPPOSING_STANCE_SHARE = 0.5;
+
+/** Edge multiplier for a cluster with no independently corroborated signals (1.0 when all are) */
+const UNCORROBORATED_EDGE_FACTOR = 0.7;
 
 const MARKET_MAPPING_PROMPT = `You are a prediction market analyst. Given a topic cluster (a group of signals from Crypto Twitter) and a list of active Polymarket markets, determine:
 
 1. Which markets are relevant to this topic cluster?
-2. What direction (YES or NO) does the signal evidence suggest?
-3. What is the implied probability based on the signals?
+2. Which outcome does the signal evidence favor: YES or NO on a yes/no market, or one of a market's named outcomes?
+3. What is the probability of that outcome based on the signals?
+4. Where does each signal stand on that outcome: does it make it more likely, less likely, or neither?
 
 Respond with JSON only (no markdown fencing):
 {
   "mappings": [
     {
       "market_index": 0,
-      "direction": "YES" | "NO",
+      "outcome": "Yes",
       "signal_implied_probability": 0.0-1.0,
-      "reasoning": "Brief explanation of why the signals suggest this direction and probability"
+      "reasoning": "Brief explanation of why the signals suggest this outcome and probability",
+      "for_signals": [0, 2],
+      "against_signals": [1]
     }
   ]
 }
 
 Rules:
 - Only include markets that are genuinely relevant to the cluster topic
+- "outcome" must be one of the market's listed outcome labels, and signal_implied_probability is that outcome's probability
 - Be conservative with implied probability — don't overfit to noisy signals
-- If the cluster sentiment is "mixed", the implied probability should be near 0.5
+- If the cluster sentiment is "mixed", the implied probability should be near 0.5 on a yes/no market, or near the
+  current price for one outcome of a multi-outcome event
 - Consider signal quality: corroborated claims > single sources > rumors > vibes
-- It's fine to return an empty mappings array if no markets are relevant`;
+- It's fine to return an empty mappings array if no markets are relevant
+- for_signals and against_signals list the cluster signals (by index) whose claims make the chosen outcome more or less likely.
+  Judge each signal on its own claim, not on the cluster sentiment; leave out signals that don't bear on the market.
+  A signal's "stance" is what its author argued, phrased before any market was chosen — translate it to this market's outcomes
+- Markets that share an "event" key are the mutually exclusive outcomes of one event: exactly one of them resolves YES.
+  Probabilities given for them are normalized to sum to 1 across the event, so keep them consistent with each other
+  and with the event's other outcomes. To back one outcome, take YES on its market rather than NO on the others
+- Markets marked "linked_by_signals": true were linked directly by contributors — always include a mapping for each of them
+- Use the cluster's claim_facts to match markets precisely: the asset or entity, the threshold and the deadline all have to line up.
+  A claim of "BTC > $100k by 2025-12-31" says little about a market on BTC > $150k, or on a deadline months earlier — adjust
+  the implied probability for any threshold or deadline gap, or leave the market out
+- Compare claim deadlines with each market's end_date
+- The cluster's velocity says how fast the narrative is spreading — how soon the market may move, not which way.
+  Don't push the implied probability further because a narrative is accelerating
+
+${UNTRUSTED_CONTENT_NOTICE}`;
+
+const MappingSchema = z.object({
+  mappings: z
+    .array(
+      z.object({
+        market_index: z.number().int().nonnegative(),
+        outcome: z.string(),
+        signal_implied_probability: z.number().min(0).max(1),
+        reasoning: z.string(),
+        for_signals: z.array(z.number().int().nonnegative()).default([]),
+        against_signals: z.array(z.number().int().nonnegative()).default([]),
+      })
+    )
+    .default([]),
+});
+
+type Mapping = z.infer<typeof MappingSchema>["mappings"][number];
+
+/** A mapping matched to the market and outcome it names */
+interface ResolvedMapping {
+  mapping: Mapping;
+  market: PolymarketMarket;
+  outcome: MarketOutcome;
+}
 
 export class EdgeScorer {
-  private anthropic: Anthropic;
+  private llm: LLMClient;
+  private polymarket: PolymarketApi;
   private marketCache: PolymarketMarket[] = [];
   private lastCacheTime = 0;
   private cacheIntervalMs = 15 * 60 * 1000; // 15 minutes
+  private linkedMarketCache = new Map<string, { market: PolymarketMarket; fetchedAt: number }>();
 
-  constructor(anthropicApiKey: string) {
-    this.anthropic = new Anthropic({ apiKey: anthropicApiKey });
+  constructor(llm: LLMClient, polymarket: PolymarketApi = gammaApi) {
+    this.llm = llm;
+    this.polymarket = polymarket;
   }
 
   /**
-   * Get active markets with caching.
+   * Markets worth showing the model for a cluster: the best matches in the
+   * local catalog for its name, claims and topics. Until the first catalog
+   * sync has run, one cached page of the API ordered by how many of the
+   * cluster's assets and entities each market names.
+   */
+  async getCandidates(cluster: TopicCluster, facts: ClaimFacts): Promise<PolymarketMarket[]> {
+    if (getCatalogSize().markets > 0) {
+      return retrieveMarkets(cluster, MARKET_CANDIDATES);
+    }
+
+    const markets = await this.getMarkets();
+    const matchScores = new Map(markets.map((m) => [m.conditionId, claimMatchScore(m, facts)]));
+    return markets
+      .map((m, i) => ({ m, i }))
+      .sort((a, b) => matchScores.get(b.m.conditionId)! - matchScores.get(a.m.conditionId)! || a.i - b.i)
+      .slice(0, MARKET_CANDIDATES)
+      .map(({ m }) => m);
+  }
+
+  /**
+   * One page of active markets from the API, cached — only used until the
+   * catalog has synced.
    */
   async getMarkets(): Promise<PolymarketMarket[]> {
     const now = Date.now();
     if (now - this.lastCacheTime > this.cacheIntervalMs || this.marketCache.length === 0) {
-      this.marketCache = await fetchActiveMarkets(200);
+      this.marketCache = await this.polymarket.fetchActiveMarkets(200);
       this.lastCacheTime = now;
     }
     return this.marketCache;
   }
 
+  /**
+   * Markets contributors linked directly in this cluster's signals, with
+   * prices refreshed from the catalog (the stored snapshot can be up to a
+   * day old). Markets the catalog doesn't have are fetched directly.
+   */
+  async getLinkedMarkets(cluster: TopicCluster): Promise<PolymarketMarket[]> {
+    const linked = new Map<string, PolymarketMarket>();
+    for (const signal of cluster.signals) {
+      for (const m of signal.linkedMarkets) {
+        linked.set(m.conditionId, m);
+      }
+    }
+
+    const now = Date.now();
+    const active = new Map(
+      [...this.marketCache, ...getCatalogMarkets([...linked.keys()])].map((m) => [m.conditionId, m])
+    );
+    const refreshed: PolymarketMarket[] = [];
+
+    for (const snapshot of linked.values()) {
+      const cached = this.linkedMarketCache.get(snapshot.conditionId);
+      if (active.has(snapshot.conditionId)) {
+        refreshed.push(active.get(snapshot.conditionId)!);
+      } else if (cached && now - cached.fetchedAt < this.cacheIntervalMs) {
+        refreshed.push(cached.market);
+      } else {
+        const fresh = await this.polymarket.fetchMarketBySlug(snapshot.slug).catch(() => null);
+        const market = fresh ?? snapshot;
+        this.linkedMarketCache.set(snapshot.conditionId, { market, fetchedAt: now });
+        refreshed.push(market);
+      }
+    }
+
+    return refreshed.filter((m) => m.active);
+  }
+
+  /**
+   * The open markets of every negative-risk event among `markets`, keyed by
+   * event id, highest priced first: the catalog's copy plus any of the
+   * event's markets already in hand (a contributor's event link).
+   */
+  getEventOutcomes(markets: PolymarketMarket[]): Map<string, PolymarketMarket[]> {
+    const events = new Map<string, PolymarketMarket[]>();
+    for (const market of markets) {
+      if (!market.negRisk || !market.eventId || events.has(market.eventId)) continue;
+      const siblings = new Map(getEventMarkets(market.eventId).map((m) => [m.conditionId, m]));
+      for (const m of markets) {
+        if (m.eventId === market.eventId && !siblings.has(m.conditionId)) siblings.set(m.conditionId, m);
+      }
+      if (siblings.size > 1) {
+        events.set(
+          market.eventId,
+          [...siblings.values()].sort((a, b) => (b.outcomePrices[0] ?? 0) - (a.outcomePrices[0] ?? 0))
+        );
+      }
+    }
+    return events;
+  }
+
   /**
    * Find edge opportunities by mapping a topic cluster to Polymarket markets.
+   * Markets linked directly by contributors are always shown to the model;
+   * any it leaves unmapped are asked for once more, then logged if still missing.
    */
   async findEdge(
     cluster: TopicCluster,
     clusterWeight: number
   ): Promise<EdgeOpportunity[]> {
-    const markets = await this.getMarkets();
+    const flaggedShare = flaggedWeightShare(cluster.signals);
+    if (flaggedShare > MAX_FLAGGED_WEIGHT_SHARE) {
+      console.warn(
+        `[EdgeScorer] Skipping "${cluster.name}": ${Math.round(flaggedShare * 100)}% of its weight comes from injection-flagged signals`
+      );
+      return [];
+    }
+
+    const linkedMarkets = await this.getLinkedMarkets(cluster);
+    const linkedIds = new Set(linkedMarkets.map((m) => m.conditionId));
+
+    // Linked markets first, then the cluster's best catalog matches
+    const facts = summarizeClaims(cluster.signals);
+    const candidates = await this.getCandidates(cluster, facts);
+    const topMarkets = [...linkedMarkets, ...candidates.filter((m) => !linkedIds.has(m.conditionId))];
+    if (topMarkets.length === 0) {
+      console.log(`[EdgeScorer] No candidate markets for "${cluster.name}"`);
+      return [];
+    }
+
+    // A multi-outcome event is shown with its leading outcomes, not just the ones retrieval found
+    const eventMarkets = this.getEventOutcomes(topMarkets);
+    const shown = new Set(topMarkets.map((m) => m.conditionId));
+    for (const siblings of eventMarkets.values()) {
+      for (const m of siblings.slice(0, MAX_EVENT_OUTCOMES)) {
+        if (!shown.has(m.conditionId)) {
+          shown.add(m.conditionId);
+          topMarkets.push(m);
+        }
+      }
+    }
+    const eventKeys = new Map([...eventMarkets.keys()].map((id, i) => [id, `E${i}`]));
 
-    // Summarize markets for the prompt (top 50 by volume to keep prompt manageable)
-    const topMarkets = markets.slice(0, 50);
     const marketSummaries = topMarkets.map((m, i) => ({
       index: i,
       question: m.question,
-      yes_price: m.outcomePrices[0] || 0.5,
-      no_price: m.outcomePrices[1] || 0.5,
+      outcomes: marketOutcomes(m).map((o) => ({ label: o.label, price: o.price })),
       volume: m.volume,
+      end_date: m.endDate,
+      ...(m.tags?.length ? { tags: m.tags } : {}),
+      ...(m.eventId && eventKeys.has(m.eventId) ? { event: eventKeys.get(m.eventId), outcome_name: m.outcomeName } : {}),
+      ...(linkedIds.has(m.conditionId) ? { linked_by_signals: true } : {}),
+    }));
+    const eventSummaries = [...eventMarkets].map(([id, siblings]) => ({
+      event: eventKeys.get(id),
+      title: siblings[0].eventTitle,
+      outcomes: siblings.length,
+      yes_price_total: round(siblings.reduce((sum, m) => sum + (findOutcome(m, "yes")?.price ?? 0), 0)),
     }));
 
+    const stanceSignals = [...cluster.signals].sort((a, b) => b.weight - a.weight).slice(0, MAX_STANCE_SIGNALS);
     const clusterSummary = {
       name: cluster.name,
       signal_count: cluster.signalCount,
       avg_engagement: cluster.avgEngagement,
       sentiment: cluster.sentiment,
-      top_claims: cluster.signals.slice(0, 5).map((s) => s.coreClaim),
+      corroborated_signals: cluster.signals.filter((s) => s.corroboration.length > 0).length,
+      velocity: {
+        signals_per_hour: cluster.velocity.signalsPerHour,
+        acceleration: cluster.velocity.acceleration,
+        new_contributors: cluster.velocity.newContributors,
+        hours_since_first_flag: cluster.velocity.hoursSinceFirstFlag,
+      },
+      claim_facts: facts,
+      signals: stanceSignals.map((s, i) => ({
+        index: i,
+        claim: s.coreClaim,
+        type: s.signalType,
+        ...(s.stance ? { stance: s.stance } : {}),
+      })),
     };
 
-    const response = await this.anthropic.messages.create({
-      model: "claude-sonnet-4-5-20250929",
-      max_tokens: 1000,
+    const request: LLMRequest = {
+      stage: "edge_scoring",
+      system: MARKET_MAPPING_PROMPT,
       messages: [
         {
           role: "user",
-          content: `Topic cluster:\n${JSON.stringify(clusterSummary, null, 2)}\n\nActive Polymarket markets:\n${JSON.stringify(marketSummaries, null, 2)}`,
+          content:
+            `Topic cluster:\n${wrapUntrusted("topic cluster", JSON.stringify(clusterSummary, null, 2))}\n\n` +
+            `Candidate Polymarket markets, most relevant first:\n${JSON.stringify(marketSummaries, null, 2)}` +
+            (eventSummaries.length > 0
+              ? `\n\nMulti-outcome events (one market each resolves YES):\n${JSON.stringify(eventSummaries, null, 2)}`
+              : ""),
         },
       ],
-      system: MARKET_MAPPING_PROMPT,
-    });
+    };
 
-    const text = response.content[0].type === "text" ? response.content[0].text : "{}";
-    const parsed = JSON.parse(text);
+    let parsed: z.infer<typeof MappingSchema>;
+    try {
+      parsed = await createStructured(this.llm, request, MappingSchema);
+    } catch (err) {
+      if (!(err instanceof LLMOutputError)) throw err;
+      console.error(`[EdgeScorer] No mappings for "${cluster.name}": ${err.message}`);
+      return [];
+    }
 
-    const opportunities: EdgeOpportunity[] = [];
+    // Every linked market needs a mapping; ask once more for any the model left out
+    const unmapped = topMarkets.flatMap((m, i) =>
+      linkedIds.has(m.conditionId) && !parsed.mappings.some((p) => p.market_index === i) ? [i] : []
+    );
+    if (unmapped.length > 0) {
+      parsed.mappings.push(...(await this.mapLinkedMarkets(request, parsed.mappings, unmapped, cluster, topMarkets)));
+    }
 
-    for (const mapping of parsed.mappings || []) {
+    const resolved: ResolvedMapping[] = [];
+    for (const mapping of parsed.mappings) {
       const market = topMarkets[mapping.market_index];
       if (!market) continue;
+      const outcome = findOutcome(market, mapping.outcome);
+      if (!outcome) {
+        console.warn(`[EdgeScorer] Rejected mapping "${cluster.name}" → "${market.question.slice(0, 50)}": no priced outcome "${mapping.outcome}"`);
+        continue;
+      }
+      resolved.push({ mapping, market, outcome });
+    }
+    const implied = normalizeMappings(resolved, eventMarkets);
 
-      const currentPrice =
-        mapping.direction === "YES"
-          ? market.outcomePrices[0] || 0.5
-          : market.outcomePrices[1] || 0.5;
+    const opportunities: EdgeOpportunity[] = [];
 
-      const priceDiscrepancy = Math.abs(
-        mapping.signal_implied_probability - currentPrice
-      );
+    for (const [i, { mapping, market, outcome }] of resolved.entries()) {
+      const { probability, mixedBaseline } = implied[i];
+      const currentPrice = outcome.price;
+      const direction = directionLabel(market, outcome);
+
+      const stanceIds = (indices: number[]) =>
+        new Set(indices.map((i) => stanceSignals[i]?.id).filter((id): id is string => !!id));
+      const stance = tallyStances(stanceSignals, direction, stanceIds(mapping.for_signals), stanceIds(mapping.against_signals));
+
+      const rejection = checkMapping(probability, mixedBaseline, cluster, currentPrice, stance);
+      if (rejection) {
+        console.warn(`[EdgeScorer] Rejected mapping "${cluster.name}" → "${market.question.slice(0, 50)}": ${rejection}`);
+        continue;
+      }
+
+      // Positive by checkMapping: the outcome bought is one the signals rate above its price
+      const priceDiscrepancy = probability - currentPrice;
 
-      // edge_score = signal_strength * price_discrepancy * time_value
+      // edge_score = signal_strength * price_discrepancy * time_value * corroboration * momentum
       const signalStrength = Math.min(1.0, clusterWeight / 20); // normalize to 0-1
       const timeValue = cluster.signals.some((s) => s.urgency === "breaking")
         ? 1.0
@@ -118,20 +370,164 @@ export class EdgeScorer {
           ? 0.7
           : 0.4;
 
-      const edgeScore = signalStrength * priceDiscrepancy * timeValue;
+      const edgeScore =
+        signalStrength * priceDiscrepancy * timeValue * corroborationFactor(cluster) * momentumFactor(cluster.velocity);
 
       opportunities.push({
         cluster,
         market,
-        direction: mapping.direction,
-        signalImpliedProbability: mapping.signal_implied_probability,
+        direction,
+        outcome,
+        signalImpliedProbability: probability,
         currentMarketPrice: currentPrice,
         priceDiscrepancy,
         edgeScore,
         reasoningChain: mapping.reasoning,
+        stance,
       });
     }
 
     return opportunities.sort((a, b) => b.edgeScore - a.edgeScore);
   }
+
+  /**
+   * Follow up on a mapping reply that skipped linked markets (`unmapped`
+   * holds their indices), asking for those markets only. Returns the new
+   * mappings; markets still left out are logged rather than guessed.
+   */
+  private async mapLinkedMarkets(
+    request: LLMRequest,
+    first: Mapping[],
+    unmapped: number[],
+    cluster: TopicCluster,
+    topMarkets: PolymarketMarket[]
+  ): Promise<Mapping[]> {
+    let mappings: Mapping[] = [];
+    try {
+      const retry = await createStructured(
+        this.llm,
+        {
+          ...request,
+          messages: [
+            ...request.messages,
+            { role: "assistant", content: JSON.stringify({ mappings: first }) },
+            {
+              role: "user",
+              content:
+                `Markets ${unmapped.join(", ")} were linked directly by contributors but have no mapping. ` +
+                `Reply with a mapping for each of those markets only, in the same JSON format.`,
+            },
+          ],
+        },
+        MappingSchema
+      );
+      mappings = retry.mappings.filter((m) => unmapped.includes(m.market_index));
+    } catch (err) {
+      if (!(err instanceof LLMOutputError)) throw err;
+    }
+
+    const missing = unmapped.filter((i) => !mappings.some((m) => m.market_index === i));
+    if (missing.length > 0) {
+      console.warn(
+        `[EdgeScorer] "${cluster.name}": no mapping for linked markets ${missing
+          .map((i) => `"${topMarkets[i].question.slice(0, 50)}"`)
+          .join(", ")}`
+      );
+    }
+    return mappings;
+  }
+}
+
+/**
+ * Scales from UNCORROBORATED_EDGE_FACTOR up to 1.0 with the share of the
+ * cluster's signals that independent sources back.
+ */
+function corroborationFactor(cluster: TopicCluster): number {
+  if (cluster.signals.length === 0) return UNCORROBORATED_EDGE_FACTOR;
+  const share = cluster.signals.filter((s) => s.corroboration.length > 0).length / cluster.signals.length;
+  return UNCORROBORATED_EDGE_FACTOR + (1 - UNCORROBORATED_EDGE_FACTOR) * share;
+}
+
+/**
+ * Each mapping's implied probability, normalized across the mutually
+ * exclusive outcomes its outcome belongs to (see outcomeLegs). A NO on one
+ * market of a negative-risk event is read as the complement of that
+ * market's YES. Also returns the probability a "mixed" cluster should sit
+ * near: 0.5 for a two-way market, the current price otherwise.
+ */
+function normalizeMappings(
+  resolved: ResolvedMapping[],
+  eventMarkets: Map<string, PolymarketMarket[]>
+): Array<{ probability: number; mixedBaseline: number }> {
+  const groups = new Map<string, { legs: OutcomeLeg[]; stated: Map<string, number[]> }>();
+
+  const placed = resolved.map(({ mapping, market, outcome }) => {
+    const legs = outcomeLegs(market, eventMarkets.get(market.eventId ?? "") ?? []);
+    const own = legs.find((l) => l.key === legKey(market, outcome));
+    const leg = own ?? legs.find((l) => l.market.conditionId === market.conditionId);
+    if (!leg) return null;
+
+    const groupKey = legs.some((l) => l.market.conditionId !== market.conditionId)
+      ? `event:${market.eventId}`
+      : `market:${market.conditionId}`;
+    const group = groups.get(groupKey) ?? { legs, stated: new Map<string, number[]>() };
+    groups.set(groupKey, group);
+
+    const p = mapping.signal_implied_probability;
+    group.stated.set(leg.key, [...(group.stated.get(leg.key) ?? []), own ? p : 1 - p]);
+    return { groupKey, leg: leg.key, complement: !own, legs: legs.length };
+  });
+
+  const normalized = new Map<string, Map<string, number>>();
+  for (const [key, { legs, stated }] of groups) {
+    const means = new Map([...stated].map(([leg, ps]) => [leg, ps.reduce((a, b) => a + b, 0) / ps.length]));
+    normalized.set(key, normalizeAcross(legs, means));
+  }
+
+  return placed.map((place, i) => {
+    const { mapping, outcome } = resolved[i];
+    if (!place) return { probability: mapping.signal_implied_probability, mixedBaseline: 0.5 };
+    const p = normalized.get(place.groupKey)!.get(place.leg)!;
+    return {
+      probability: round(place.complement ? 1 - p : p),
+      mixedBaseline: place.legs === 2 ? 0.5 : outcome.price,
+    };
+  });
+}
+
+/**
+ * Output check: the model's mapping has to agree with what we can compute
+ * ourselves. Returns a rejection reason, or null if the mapping is plausible.
+ */
+function checkMapping(
+  p: number,
+  mixedBaseline: number,
+  cluster: TopicCluster,
+  currentPrice: number,
+  stance: StanceTally
+): string | null {
+  if (currentPrice <= 0 || currentPrice >= 1) {
+    return `${stance.outcome} is priced at ${currentPrice}, so there's nothing left to trade`;
+  }
+  if (p < MIN_IMPLIED_PROBABILITY || p > MAX_IMPLIED_PROBABILITY) {
+    return `implied probability ${p} is implausibly extreme for crowd signals`;
+  }
+  // Normalizing across an event can push a leg under its price: buying it then bets against the model's own read
+  if (p <= currentPrice) {
+    return `implied probability ${p} is not above the market at ${currentPrice}, so ${stance.outcome} is no buy`;
+  }
+  if (cluster.sentiment.direction === "mixed" && Math.abs(p - mixedBaseline) > 0.2) {
+    return `cluster sentiment is mixed but implied probability is ${p}`;
+  }
+  if (stance.backing.signals + stance.opposing.signals > 0 && 1 - stance.backingShare > MAX_OPPOSING_STANCE_SHARE) {
+    return `outcome is ${stance.outcome} but the signals lean the other way (${stance.summary})`;
+  }
+  if (Math.abs(p - currentPrice) > MAX_IMPLIED_SHIFT) {
+    return `implied probability ${p} is more than ${MAX_IMPLIED_SHIFT} away from the market at ${currentPrice}`;
+  }
+  return null;
+}
+
+function round(n: number): number {
+  return Math.round(n * 1000) / 1000;
 }
@@ -1,3 +1,23 @@
 export { TopicClusterer } from "./clustering.js";
 export { EdgeScorer } from "./edge-scorer.js";
-export { fetchActiveMarkets, searchMarkets } from "./polymarket.js";
+export { MarketCatalog } from "./catalog.js";
+export { dedupeSignals } from "./dedup.js";
+export { corroborateSignals } from "./corroboration.js";
+export { clusterVelocity, momentumFactor } from "./velocity.js";
+export { tallyStances } from "./stance.js";
+export { marketOutcomes, findOutcome, directionLabel, outcomeLegs, normalizeAcross, type OutcomeLeg } from "./outcomes.js";
+export { groupSignals, vectorize, type SignalGroup, type TermVector } from "./lexical-clustering.js";
+export { summarizeClaims, claimMatchScore, type ClaimFacts } from "./claims.js";
+export { assessBrigading, type BrigadeAssessment } from "./brigading.js";
+export {
+  fetchActiveMarkets,
+  fetchEventsPage,
+  fetchUpdatedMarketsPage,
+  searchMarkets,
+  fetchMarketBySlug,
+  fetchEventMarkets,
+  parsePolymarketUrl,
+  resolvePolymarketUrls,
+  gammaApi,
+  type PolymarketApi,
+} from "./polymarket.js";
@@ -0,0 +1,188 @@
+import type { EnrichedSignal } from "../types/index.js";
+import { contentWords } from "../utils/text.js";
+
+/** Average pairwise similarity at which two groups are joined */
+const GROUP_SIMILARITY = 0.25;
+
+/** Topics, assets and entities count this many times a claim word */
+const STRUCTURED_TERM_WEIGHT = 2;
+
+/** Top terms kept per group, for names and prompts */
+const GROUP_TERMS = 5;
+
+/** A sparse TF-IDF vector, L2-normalized */
+export type TermVector = Map<string, number>;
+
+export interface SignalGroup {
+  signals: EnrichedSignal[];
+  centroid: TermVector;
+  /** Highest-weighted terms of the centroid, most telling first */
+  terms: string[];
+}
+
+/**
+ * TF-IDF vectors for a set of signals, built from the claim words plus
+ * topics, assets and entities as whole terms. IDF is computed over the
+ * signals given, so compare only vectors from the same call.
+ */
+export function vectorize(signals: EnrichedSignal[]): Map<string, TermVector> {
+  const counts = signals.map(termCounts);
+  const docFreq = new Map<string, number>();
+  for (const c of counts) {
+    for (const term of c.keys()) docFreq.set(term, (docFreq.get(term) || 0) + 1);
+  }
+
+  const vectors = new Map<string, TermVector>();
+  signals.forEach((s, i) => {
+    const vector: TermVector = new Map();
+    for (const [term, tf] of counts[i]) {
+      vector.set(term, tf * Math.log(1 + signals.length / docFreq.get(term)!));
+    }
+    vectors.set(s.id, normalize(vector));
+  });
+  return vectors;
+}
+
+export function cosine(a: TermVector, b: TermVector): number {
+  const [small, large] = a.size <= b.size ? [a, b] : [b, a];
+  let dot = 0;
+  for (const [term, w] of small) {
+    const other = large.get(term);
+    if (other) dot += w * other;
+  }
+  return dot;
+}
+
+/**
+ * The normalized mean of a set of vectors.
+ */
+export function centroid(vectors: TermVector[]): TermVector {
+  const sum: TermVector = new Map();
+  for (const v of vectors) {
+    for (const [term, w] of v) sum.set(term, (sum.get(term) || 0) + w);
+  }
+  return normalize(sum);
+}
+
+/**
+ * Agglomerative (average-linkage) grouping: start from single signals and
+ * keep joining the two most similar groups while their average pairwise
+ * cosine similarity stays at or above `threshold`. Groups come back largest
+ * first. Each group remembers its most similar partner, so a join only
+ * rescans the rows that pointed at one of the two groups joined: roughly
+ * quadratic time in practice, with n² floats of memory (8 MB at 1,000
+ * signals, 200 MB at 5,000), so keep the input to one window.
+ */
+export function groupSignals(
+  signals: EnrichedSignal[],
+  vectors: Map<string, TermVector> = vectorize(signals),
+  threshold = GROUP_SIMILARITY
+): SignalGroup[] {
+  const n = signals.length;
+  const vecs = signals.map((s) => vectors.get(s.id) ?? new Map<string, number>());
+
+  // links[i * n + j] = sum of pairwise similarities between groups i and j
+  const links = new Float64Array(n * n);
+  for (let i = 0; i < n; i++) {
+    for (let j = i + 1; j < n; j++) {
+      const sim = cosine(vecs[i], vecs[j]);
+      links[i * n + j] = sim;
+      links[j * n + i] = sim;
+    }
+  }
+
+  const members: Array<number[] | null> = signals.map((_, i) => [i]);
+  const avg = (a: number, b: number) => links[a * n + b] / (members[a]!.length * members[b]!.length);
+
+  // nearest[a] = the live group most similar to a, at similarity nearestSim[a]
+  const nearest = new Int32Array(n).fill(-1);
+  const nearestSim = new Float64Array(n).fill(-Infinity);
+  const findNearest = (a: number) => {
+    nearest[a] = -1;
+    nearestSim[a] = -Infinity;
+    for (let b = 0; b < n; b++) {
+      if (b === a || !members[b]) continue;
+      const sim = avg(a, b);
+      if (sim > nearestSim[a]) {
+        nearestSim[a] = sim;
+        nearest[a] = b;
+      }
+    }
+  };
+  for (let a = 0; a < n; a++) findNearest(a);
+
+  for (;;) {
+    let bestA = -1;
+    for (let a = 0; a < n; a++) {
+      if (members[a] && nearest[a] >= 0 && (bestA < 0 || nearestSim[a] > nearestSim[bestA])) bestA = a;
+    }
+    if (bestA < 0 || nearestSim[bestA] < threshold) break;
+
+    // Fold the later group into the earlier one
+    const a = Math.min(bestA, nearest[bestA]);
+    const b = Math.max(bestA, nearest[bestA]);
+    members[a]!.push(...members[b]!);
+    members[b] = null;
+    for (let k = 0; k < n; k++) {
+      if (k === a || !members[k]) continue;
+      const sum = links[a * n + k] + links[b * n + k];
+      links[a * n + k] = sum;
+      links[k * n + a] = sum;
+    }
+
+    // Only rows that pointed at a or b can have lost their nearest group;
+    // for the rest, the merged group is the one similarity that changed
+    findNearest(a);
+    for (let k = 0; k < n; k++) {
+      if (k === a || !members[k]) continue;
+      if (nearest[k] === a || nearest[k] === b) {
+        findNearest(k);
+      } else {
+        const sim = avg(k, a);
+        if (sim > nearestSim[k]) {
+          nearestSim[k] = sim;
+          nearest[k] = a;
+        }
+      }
+    }
+  }
+
+  return members
+    .filter((m): m is number[] => !!m)
+    .map((m) => {
+      const center = centroid(m.map((i) => vecs[i]));
+      return { signals: m.map((i) => signals[i]), centroid: center, terms: topTerms(center) };
+    })
+    .sort((a, b) => b.signals.length - a.signals.length);
+}
+
+/**
+ * The heaviest terms of a vector, without the markers that tell topics,
+ * assets and entities apart from claim words.
+ */
+export function topTerms(vector: TermVector, count = GROUP_TERMS): string[] {
+  const terms = [...vector]
+    .sort((a, b) => b[1] - a[1])
+    .map(([term]) => term.replace(/^[#$@]/, ""));
+  return [...new Set(terms)].slice(0, count);
+}
+
+function termCounts(signal: EnrichedSignal): Map<string, number> {
+  const counts = new Map<string, number>();
+  const add = (term: string, weight: number) => counts.set(term, (counts.get(term) || 0) + weight);
+
+  for (const word of contentWords(signal.coreClaim)) add(word, 1);
+  for (const topic of signal.topics) add(`#${topic.toLowerCase()}`, STRUCTURED_TERM_WEIGHT);
+  for (const asset of signal.assets) add(`$${asset.toLowerCase()}`, STRUCTURED_TERM_WEIGHT);
+  for (const entity of signal.entities) add(`@${entity.toLowerCase()}`, STRUCTURED_TERM_WEIGHT);
+  return counts;
+}
+
+function normalize(vector: TermVector): TermVector {
+  let norm = 0;
+  for (const w of vector.values()) norm += w * w;
+  norm = Math.sqrt(norm);
+  if (norm === 0) return vector;
+  for (const [term, w] of vector) vector.set(term, w / norm);
+  return vector;
+}
@@ -0,0 +1,90 @@
+import type { PolymarketMarket, MarketOutcome } from "../types/index.js";
+
+/** One of a set of mutually exclusive outcomes, exactly one of which resolves true */
+export interface OutcomeLeg {
+  key: string;
+  market: PolymarketMarket;
+  outcome: MarketOutcome;
+}
+
+/**
+ * Every outcome token of a market with its price. Outcomes without a price
+ * are left out rather than guessed.
+ */
+export function marketOutcomes(market: PolymarketMarket): MarketOutcome[] {
+  return market.outcomes.flatMap((label, index) => {
+    const price = market.outcomePrices[index];
+    if (typeof price !== "number" || !Number.isFinite(price)) return [];
+    const tokenId = market.tokenIds?.[index];
+    return [{ label, index, price, ...(tokenId ? { tokenId } : {}) }];
+  });
+}
+
+/**
+ * The outcome with this label, however it's cased ("YES" finds "Yes").
+ */
+export function findOutcome(market: PolymarketMarket, label: string): MarketOutcome | undefined {
+  const wanted = label.trim().toLowerCase();
+  return marketOutcomes(market).find((o) => o.label.trim().toLowerCase() === wanted);
+}
+
+export function isBinary(market: PolymarketMarket): boolean {
+  const labels = market.outcomes.map((o) => o.trim().toLowerCase()).sort();
+  return labels.length === 2 && labels[0] === "no" && labels[1] === "yes";
+}
+
+/**
+ * How a position in an outcome is named: "YES" or "NO" on a binary market,
+ * the outcome's own label otherwise.
+ */
+export function directionLabel(market: PolymarketMarket, outcome: MarketOutcome): string {
+  return isBinary(market) ? outcome.label.trim().toUpperCase() : outcome.label;
+}
+
+export function legKey(market: PolymarketMarket, outcome: MarketOutcome): string {
+  return `${market.conditionId}:${outcome.index}`;
+}
+
+/**
+ * The mutually exclusive outcomes a market's outcomes belong to: the YES
+ * outcome of every open market in its negative-risk event, or the market's
+ * own outcomes when it stands alone (or its siblings aren't known).
+ */
+export function outcomeLegs(market: PolymarketMarket, eventMarkets: PolymarketMarket[] = []): OutcomeLeg[] {
+  const siblings = eventMarkets.filter((m) => m.eventId === market.eventId);
+  if (market.negRisk && market.eventId && siblings.length > 1) {
+    const markets = siblings.some((m) => m.conditionId === market.conditionId) ? siblings : [market, ...siblings];
+    return markets.flatMap((m) => {
+      const yes = findOutcome(m, "yes");
+      return yes ? [{ key: legKey(m, yes), market: m, outcome: yes }] : [];
+    });
+  }
+  return marketOutcomes(market).map((outcome) => ({ key: legKey(market, outcome), market, outcome }));
+}
+
+/**
+ * Turn probabilities stated for some legs into a distribution over all of
+ * them. Stated legs keep their share while they sum to under 1 and the
+ * rest is split over the unstated legs by market price; otherwise the
+ * stated legs are scaled to sum to 1.
+ */
+export function normalizeAcross(legs: OutcomeLeg[], stated: Map<string, number>): Map<string, number> {
+  const given = legs.filter((l) => stated.has(l.key));
+  const rest = legs.filter((l) => !stated.has(l.key));
+  const statedSum = given.reduce((sum, l) => sum + stated.get(l.key)!, 0);
+  const normalized = new Map<string, number>();
+
+  if (rest.length === 0 || statedSum >= 1) {
+    for (const l of given) normalized.set(l.key, statedSum > 0 ? stated.get(l.key)! / statedSum : 1 / given.length);
+    for (const l of rest) normalized.set(l.key, 0);
+    return normalized;
+  }
+
+  const remainder = 1 - statedSum;
+  const priceSum = rest.reduce((sum, l) => sum + l.outcome.price, 0);
+  for (const l of given) normalized.set(l.key, stated.get(l.key)!);
+  for (const l of rest) {
+    normalized.set(l.key, remainder * (priceSum > 0 ? l.outcome.price / priceSum : 1 / rest.length));
+  }
+  return normalized;
+}
@@ -1,4 +1,6 @@
-import type { PolymarketMarket } from "../types/index.js";
+import type { PolymarketMarket, PolymarketEvent } from "../types/index.js";
+import { getCatalogSize } from "../store/index.js";
+import { rankMarkets } from "./retrieval.js";
 
 const POLYMARKET_API = "https://gamma-api.polymarket.com";
 
@@ -14,23 +16,234 @@ export async function fetchActiveMarkets(limit = 100): Promise<PolymarketMarket[
 
   const data: any[] = await resp.json();
 
-  return data.map((m) => ({
+  return data.map(toMarket);
+}
+
+/**
+ * Fetch one page of open events with their markets, for the catalog sync.
+ * Markets inherit the event's id, slug, category and tags.
+ */
+export async function fetchEventsPage(
+  offset: number,
+  limit = 100
+): Promise<{ events: PolymarketEvent[]; markets: PolymarketMarket[]; fetched: number }> {
+  const url = `${POLYMARKET_API}/events?closed=false&limit=${limit}&offset=${offset}&order=id&ascending=true`;
+  const resp = await fetch(url);
+  if (!resp.ok) {
+    throw new Error(`Polymarket API error: ${resp.status} ${resp.statusText}`);
+  }
+
+  const data: any[] = await resp.json();
+  const events = data.map(toEvent);
+  const markets = data.flatMap((e, i) =>
+    (e.markets || []).map((m: any) => {
+      const market = toMarket(m);
+      return {
+        ...market,
+        eventId: events[i].id,
+        eventSlug: events[i].slug,
+        eventTitle: events[i].title,
+        category: market.category || events[i].category,
+        tags: market.tags?.length ? market.tags : events[i].tags,
+        negRisk: market.negRisk || events[i].negRisk,
+      };
+    })
+  );
+  return { events, markets, fetched: data.length };
+}
+
+/**
+ * Fetch one page of markets, most recently changed first (closed ones
+ * included, so the catalog sees closures between full syncs).
+ */
+export async function fetchUpdatedMarketsPage(offset: number, limit = 100): Promise<PolymarketMarket[]> {
+  const url = `${POLYMARKET_API}/markets?limit=${limit}&offset=${offset}&order=updatedAt&ascending=false`;
+  const resp = await fetch(url);
+  if (!resp.ok) {
+    throw new Error(`Polymarket API error: ${resp.status} ${resp.statusText}`);
+  }
+
+  const data: any[] = await resp.json();
+  return data.map(toMarket);
+}
+
+/**
+ * Fetch a single market by its slug. Returns null if no such market.
+ */
+export async function fetchMarketBySlug(slug: string): Promise<PolymarketMarket | null> {
+  const resp = await fetch(`${POLYMARKET_API}/markets?slug=${encodeURIComponent(slug)}`);
+  if (!resp.ok) {
+    throw new Error(`Polymarket API error: ${resp.status} ${resp.statusText}`);
+  }
+
+  const data: any[] = await resp.json();
+  return data.length > 0 ? toMarket(data[0]) : null;
+}
+
+/**
+ * Fetch the open markets belonging to an event, by event slug.
+ */
+export async function fetchEventMarkets(slug: string): Promise<PolymarketMarket[]> {
+  const resp = await fetch(`${POLYMARKET_API}/events?slug=${encodeURIComponent(slug)}`);
+  if (!resp.ok) {
+    throw new Error(`Polymarket API error: ${resp.status} ${resp.statusText}`);
+  }
+
+  const data: any[] = await resp.json();
+  if (!data[0]) return [];
+  const event = toEvent(data[0]);
+  const markets: any[] = data[0].markets || [];
+  return markets
+    .filter((m) => m.closed !== true)
+    .map((m) => ({
+      ...toMarket(m),
+      eventId: event.id,
+      eventSlug: event.slug,
+      eventTitle: event.title,
+      negRisk: m.negRisk === true || event.negRisk,
+    }));
+}
+
+/**
+ * The Gamma API reads the pipeline depends on, as one object so a replay
+ * or test can hand the campaign canned markets instead of the network.
+ */
+export interface PolymarketApi {
+  fetchActiveMarkets(limit?: number): Promise<PolymarketMarket[]>;
+  fetchEventsPage(
+    offset: number,
+    limit?: number
+  ): Promise<{ events: PolymarketEvent[]; markets: PolymarketMarket[]; fetched: number }>;
+  fetchUpdatedMarketsPage(offset: number, limit?: number): Promise<PolymarketMarket[]>;
+  fetchMarketBySlug(slug: string): Promise<PolymarketMarket | null>;
+  fetchEventMarkets(slug: string): Promise<PolymarketMarket[]>;
+}
+
+/** The live Gamma API */
+export const gammaApi: PolymarketApi = {
+  fetchActiveMarkets,
+  fetchEventsPage,
+  fetchUpdatedMarketsPage,
+  fetchMarketBySlug,
+  fetchEventMarkets,
+};
+
+export interface PolymarketLink {
+  eventSlug?: string;
+  marketSlug?: string;
+}
+
+/**
+ * Parse a polymarket.com URL into event/market slugs.
+ * Handles /event/<event>, /event/<event>/<market> and /market/<market>.
+ */
+export function parsePolymarketUrl(url: string): PolymarketLink | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return null;
+  }
+  if (!/(^|\.)polymarket\.com$/.test(parsed.hostname)) return null;
+
+  const parts = parsed.pathname.split("/").filter(Boolean);
+  // Localized paths look like /es/event/...
+  const start = parts.findIndex((p) => p === "event" || p === "market");
+  if (start === -1 || !parts[start + 1]) return null;
+
+  if (parts[start] === "market") {
+    return { marketSlug: parts[start + 1] };
+  }
+  return { eventSlug: parts[start + 1], marketSlug: parts[start + 2] };
+}
+
+/**
+ * Resolve any Polymarket links among `urls` to markets. A link to a specific
+ * market resolves to that market; a bare event link resolves to all of the
+ * event's open markets. Unresolvable links are skipped.
+ */
+export async function resolvePolymarketUrls(
+  urls: string[],
+  api: PolymarketApi = gammaApi
+): Promise<PolymarketMarket[]> {
+  const resolved = new Map<string, PolymarketMarket>();
+
+  for (const url of new Set(urls)) {
+    const link = parsePolymarketUrl(url);
+    if (!link) continue;
+
+    try {
+      const markets = link.marketSlug
+        ? [await api.fetchMarketBySlug(link.marketSlug)].filter((m): m is PolymarketMarket => m !== null)
+        : await api.fetchEventMarkets(link.eventSlug!);
+      for (const m of markets) {
+        resolved.set(m.conditionId, m);
+      }
+    } catch (err) {
+      console.warn(`[Polymarket] Could not resolve ${url}:`, err);
+    }
+  }
+
+  return [...resolved.values()];
+}
+
+function toMarket(m: any): PolymarketMarket {
+  return {
     conditionId: m.conditionId || m.condition_id || "",
     slug: m.slug || "",
     question: m.question || "",
+    description: m.description || undefined,
     outcomes: m.outcomes ? JSON.parse(m.outcomes) : [],
     outcomePrices: m.outcomePrices ? JSON.parse(m.outcomePrices).map(Number) : [],
+    tokenIds: m.clobTokenIds ? JSON.parse(m.clobTokenIds) : [],
     volume: Number(m.volume) || 0,
     liquidity: Number(m.liquidity) || 0,
     endDate: m.endDate || m.end_date_iso || "",
-    active: m.active !== false,
-  }));
+    active: m.active !== false && m.closed !== true,
+    closed: m.closed === true,
+    eventId: m.events?.[0]?.id ? String(m.events[0].id) : undefined,
+    eventSlug: m.events?.[0]?.slug,
+    eventTitle: m.events?.[0]?.title,
+    outcomeName: m.groupItemTitle || undefined,
+    category: m.category || undefined,
+    tags: toTags(m.tags),
+    negRisk: m.negRisk === true,
+    updatedAt: m.updatedAt,
+  };
+}
+
+function toEvent(e: any): PolymarketEvent {
+  return {
+    id: String(e.id),
+    slug: e.slug || "",
+    title: e.title || "",
+    category: e.category || undefined,
+    tags: toTags(e.tags),
+    endDate: e.endDate || "",
+    negRisk: e.negRisk === true || e.enableNegRisk === true,
+    volume: Number(e.volume) || 0,
+    liquidity: Number(e.liquidity) || 0,
+    closed: e.closed === true,
+    updatedAt: e.updatedAt,
+  };
+}
+
+/** Tags come as objects ({ label, slug }) on events and are sometimes missing on markets */
+function toTags(tags: any): string[] {
+  if (!Array.isArray(tags)) return [];
+  return tags.map((t) => (typeof t === "string" ? t : t?.label || t?.slug)).filter(Boolean);
 }
 
 /**
- * Search markets by keyword. Uses the Polymarket search endpoint.
+ * Ranked search over open markets in the local catalog, best match first.
+ * Falls back to a substring filter over one page of the API until the
+ * first catalog sync has run.
  */
 export async function searchMarkets(query: string, limit = 20): Promise<PolymarketMarket[]> {
+  if (getCatalogSize().markets > 0) {
+    return rankMarkets(query, limit);
+  }
+
   const all = await fetchActiveMarkets(200);
   const lowerQuery = query.toLowerCase();
   return all
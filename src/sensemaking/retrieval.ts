@@ -0,0 +1,48 @@
+import type { TopicCluster, PolymarketMarket } from "../types/index.js";
+import { contentWords } from "../utils/text.js";
+import { summarizeClaims, assetNames } from "./claims.js";
+import { searchMarketIndex } from "../store/index.js";
+
+/** Claims per cluster that go into its query, heaviest first */
+const QUERY_CLAIMS = 10;
+
+/** Terms per query — past this, OR queries get slow and the ranking blurs */
+const MAX_QUERY_TERMS = 60;
+
+/**
+ * Search terms for a cluster, most telling first: its name, its assets
+ * (with the names markets spell them out as), entities, topics, and the
+ * words of its heaviest claims.
+ */
+export function clusterQueryTerms(cluster: TopicCluster): string[] {
+  const facts = summarizeClaims(cluster.signals);
+  const claims = [...cluster.signals]
+    .sort((a, b) => b.weight - a.weight)
+    .slice(0, QUERY_CLAIMS)
+    .map((s) => s.coreClaim);
+
+  const terms = [
+    ...contentWords(cluster.name),
+    ...facts.assets.flatMap(assetNames),
+    ...facts.entities.map((e) => e.toLowerCase()),
+    ...cluster.signals.flatMap((s) => s.topics).flatMap(contentWords),
+    ...claims.flatMap(contentWords),
+  ];
+  return [...new Set(terms)].slice(0, MAX_QUERY_TERMS);
+}
+
+/**
+ * The `k` open markets in the catalog most relevant to a cluster, by BM25
+ * over market questions, event titles, tags and descriptions.
+ */
+export function retrieveMarkets(cluster: TopicCluster, k: number): PolymarketMarket[] {
+  return searchMarketIndex(clusterQueryTerms(cluster), k).map((r) => r.market);
+}
+
+/**
+ * Free-text market search over the catalog, best match first.
+ */
+export function rankMarkets(query: string, limit: number): PolymarketMarket[] {
+  const words = contentWords(query);
+  return searchMarketIndex(words.length > 0 ? words : [query], limit).map((r) => r.market);
+}
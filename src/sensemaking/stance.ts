@@ -0,0 +1,53 @@
+import type { EnrichedSignal, StanceSide, StanceTally } from "../types/index.js";
+import { contributorReliability } from "../utils/weight.js";
+import { getContributors } from "../store/index.js";
+
+/**
+ * Count where each signal stands on a market outcome, weighting every
+ * stance by the signal's weight and its contributor's track record.
+ * Signals in neither set are neutral. Disagreement is reported as counts
+ * and weights on both sides rather than folded into one direction.
+ */
+export function tallyStances(
+  signals: EnrichedSignal[],
+  outcome: string,
+  backingIds: Set<string>,
+  opposingIds: Set<string>
+): StanceTally {
+  const contributors = getContributors([...new Set(signals.map((s) => s.raw.user.id))]);
+  const backing: StanceSide = { signals: 0, weight: 0 };
+  const opposing: StanceSide = { signals: 0, weight: 0 };
+  let neutral = 0;
+
+  for (const s of signals) {
+    const side = backingIds.has(s.id) ? backing : opposingIds.has(s.id) ? opposing : undefined;
+    if (!side) {
+      neutral++;
+      continue;
+    }
+    side.signals++;
+    side.weight += s.weight * contributorReliability(contributors.get(s.raw.user.id));
+  }
+
+  const total = backing.weight + opposing.weight;
+  return {
+    outcome,
+    backing: { signals: backing.signals, weight: round(backing.weight) },
+    opposing: { signals: opposing.signals, weight: round(opposing.weight) },
+    neutral,
+    backingShare: total > 0 ? round(backing.weight / total) : 0.5,
+    disagreement: total > 0 ? round(1 - Math.abs(backing.weight - opposing.weight) / total) : 0,
+    summary: describe(outcome, backing, opposing),
+  };
+}
+
+function describe(outcome: string, backing: StanceSide, opposing: StanceSide): string {
+  if (backing.signals > 0 && opposing.signals > 0) return `${backing.signals} back ${outcome} vs ${opposing.signals} against`;
+  if (backing.signals > 0) return `all ${backing.signals} taking a side back ${outcome}`;
+  if (opposing.signals > 0) return `all ${opposing.signals} taking a side are against ${outcome}`;
+  return "no signal takes a side";
+}
+
+function round(n: number): number {
+  return Math.round(n * 100) / 100;
+}
@@ -0,0 +1,70 @@
+import type { ClusterVelocity, SignalActivity } from "../types/index.js";
+
+/** Length of a rate window: the rate covers the last one, acceleration compares it with the one before */
+const RATE_WINDOW_HOURS = 3;
+
+/** Signals within an hour at which a narrative counts as trending */
+const TRENDING_SIGNALS_PER_HOUR = 3;
+
+/** How far momentum can move the edge score either way */
+const MOMENTUM_EDGE_WEIGHT = 0.25;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Time-series metrics for a narrative from when each of its signals was
+ * posted: how fast signals are arriving, whether that's speeding up or
+ * fading, who's new to it, and how long ago it was first flagged.
+ */
+export function clusterVelocity(activity: SignalActivity[], now = new Date()): ClusterVelocity {
+  const sorted = [...activity].sort((a, b) => a.at.getTime() - b.at.getTime());
+  const windowStart = now.getTime() - RATE_WINDOW_HOURS * HOUR_MS;
+  const previousStart = windowStart - RATE_WINDOW_HOURS * HOUR_MS;
+
+  const current = sorted.filter((a) => a.at.getTime() > windowStart);
+  const previous = sorted.filter((a) => a.at.getTime() > previousStart && a.at.getTime() <= windowStart);
+  const signalsPerHour = current.length / RATE_WINDOW_HOURS;
+  const previousPerHour = previous.length / RATE_WINDOW_HOURS;
+
+  const before = new Set(sorted.filter((a) => a.at.getTime() <= windowStart).map((a) => a.userId));
+  const newContributors = new Set(current.map((a) => a.userId).filter((id) => !before.has(id))).size;
+
+  // Trending: the first hour-long stretch holding TRENDING_SIGNALS_PER_HOUR signals
+  let trendingAt: Date | undefined;
+  for (let i = TRENDING_SIGNALS_PER_HOUR - 1; i < sorted.length; i++) {
+    if (sorted[i].at.getTime() - sorted[i - TRENDING_SIGNALS_PER_HOUR + 1].at.getTime() <= HOUR_MS) {
+      trendingAt = sorted[i].at;
+      break;
+    }
+  }
+  const early = trendingAt ? sorted.filter((a) => a.at < trendingAt!) : sorted;
+
+  const firstFlaggedAt = sorted[0]?.at ?? now;
+  return {
+    signalsPerHour: round(signalsPerHour),
+    acceleration: round((signalsPerHour - previousPerHour) / RATE_WINDOW_HOURS),
+    newContributors,
+    contributors: new Set(sorted.map((a) => a.userId)).size,
+    firstFlaggedAt,
+    hoursSinceFirstFlag: round((now.getTime() - firstFlaggedAt.getTime()) / HOUR_MS),
+    trendingAt,
+    earlyContributors: [...new Set(early.map((a) => a.handle))],
+  };
+}
+
+/**
+ * Edge multiplier from a narrative's momentum: above 1 while signals are
+ * arriving faster than in the previous window, below 1 while they fade,
+ * within MOMENTUM_EDGE_WEIGHT either way.
+ */
+export function momentumFactor(velocity: ClusterVelocity): number {
+  const previousPerHour = velocity.signalsPerHour - velocity.acceleration * RATE_WINDOW_HOURS;
+  const peak = Math.max(velocity.signalsPerHour, previousPerHour);
+  if (peak <= 0) return 1;
+  const change = Math.max(-1, Math.min(1, (velocity.signalsPerHour - previousPerHour) / peak));
+  return 1 + MOMENTUM_EDGE_WEIGHT * change;
+}
+
+function round(n: number): number {
+  return Math.round(n * 100) / 100;
+}
@@ -0,0 +1,29 @@
+import { createHash } from "crypto";
+import { getDb } from "./db.js";
+
+/**
+ * Record a suspicious signal group. The same set of signals is only flagged once.
+ */
+export function flagBrigade(flag: {
+  clusterName: string;
+  signalIds: string[];
+  handles: string[];
+  score: number;
+  reasons: string[];
+}) {
+  const db = getDb();
+  const key = [...flag.signalIds].sort().join(",");
+  const id = "brg_" + createHash("sha1").update(key).digest("hex").slice(0, 16);
+  db.prepare(`
+    INSERT OR IGNORE INTO brigade_flags (id, cluster_name, signal_ids, handles, score, reasons, created_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
+  `).run(
+    id,
+    flag.clusterName,
+    JSON.stringify(flag.signalIds),
+    JSON.stringify(flag.handles),
+    flag.score,
+    JSON.stringify(flag.reasons),
+    new Date().toISOString()
+  );
+}
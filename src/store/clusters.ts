@@ -0,0 +1,93 @@
+import { getDb } from "./db.js";
+import type { ClusterEventKind, SentimentPoint } from "../types/index.js";
+
+/** A persisted cluster: membership and history, without the signals themselves */
+export interface StoredCluster {
+  id: string;
+  name: string;
+  signalIds: string[];
+  sentiment: { direction: string; confidence: number };
+  sentimentHistory: SentimentPoint[];
+  firstSeenAt: Date;
+  lastUpdatedAt: Date;
+}
+
+/**
+ * Insert or update a cluster.
+ */
+export function saveCluster(cluster: StoredCluster & { signalCount: number; avgEngagement: number }) {
+  const db = getDb();
+
+  db.prepare(`
+    INSERT INTO topic_clusters (
+      id, name, signal_ids, signal_count, avg_engagement,
+      sentiment_direction, sentiment_confidence, sentiment_history,
+      status, first_seen_at, last_updated_at
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, 'active', ?, ?)
+    ON CONFLICT(id) DO UPDATE SET
+      name = excluded.name,
+      signal_ids = excluded.signal_ids,
+      signal_count = excluded.signal_count,
+      avg_engagement = excluded.avg_engagement,
+      sentiment_direction = excluded.sentiment_direction,
+      sentiment_confidence = excluded.sentiment_confidence,
+      sentiment_history = excluded.sentiment_history,
+      last_updated_at = excluded.last_updated_at
+  `).run(
+    cluster.id,
+    cluster.name,
+    JSON.stringify(cluster.signalIds),
+    cluster.signalCount,
+    cluster.avgEngagement,
+    cluster.sentiment.direction,
+    cluster.sentiment.confidence,
+    JSON.stringify(cluster.sentimentHistory),
+    cluster.firstSeenAt.toISOString(),
+    cluster.lastUpdatedAt.toISOString()
+  );
+}
+
+/**
+ * Active clusters touched within the last `hoursBack` hours.
+ */
+export function getActiveClusters(hoursBack = 48): StoredCluster[] {
+  const db = getDb();
+  const cutoff = new Date(Date.now() - hoursBack * 60 * 60 * 1000).toISOString();
+  const rows: any[] = db.prepare(`
+    SELECT * FROM topic_clusters WHERE status = 'active' AND last_updated_at > ? ORDER BY first_seen_at ASC
+  `).all(cutoff);
+  return rows.map(rowToCluster);
+}
+
+/**
+ * Retire a cluster absorbed by another one.
+ */
+export function markClusterMerged(id: string, intoId: string) {
+  const db = getDb();
+  db.prepare(`
+    UPDATE topic_clusters SET status = 'merged', merged_into = ?, last_updated_at = ? WHERE id = ?
+  `).run(intoId, new Date().toISOString(), id);
+}
+
+/**
+ * Record a change in cluster identity: a new cluster, a merge (related ids
+ * were absorbed into `clusterId`) or a split (related ids were carved out of it).
+ */
+export function recordClusterEvent(kind: ClusterEventKind, clusterId: string, relatedIds: string[] = [], details?: string) {
+  const db = getDb();
+  db.prepare(`
+    INSERT INTO cluster_events (kind, cluster_id, related_ids, details, created_at) VALUES (?, ?, ?, ?, ?)
+  `).run(kind, clusterId, JSON.stringify(relatedIds), details || null, new Date().toISOString());
+}
+
+function rowToCluster(row: any): StoredCluster {
+  return {
+    id: row.id,
+    name: row.name,
+    signalIds: JSON.parse(row.signal_ids),
+    sentiment: { direction: row.sentiment_direction, confidence: row.sentiment_confidence },
+    sentimentHistory: JSON.parse(row.sentiment_history).map((p: any) => ({ ...p, at: new Date(p.at) })),
+    firstSeenAt: new Date(row.first_seen_at),
+    lastUpdatedAt: new Date(row.last_updated_at),
+  };
+}
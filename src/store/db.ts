@@ -29,6 +29,10 @@ function initSchema(db: Database.Database) {
       user_account_age_days INTEGER NOT NULL,
       text TEXT NOT NULL,
       urls TEXT NOT NULL DEFAULT '[]',
+      media TEXT NOT NULL DEFAULT '[]',
+      in_reply_to_id TEXT,
+      conversation_context TEXT NOT NULL DEFAULT '[]',
+      quoted_tweet TEXT,
       likes INTEGER NOT NULL DEFAULT 0,
       retweets INTEGER NOT NULL DEFAULT 0,
       replies INTEGER NOT NULL DEFAULT 0,
@@ -37,7 +41,14 @@ function initSchema(db: Database.Database) {
       core_claim TEXT NOT NULL,
       urgency TEXT NOT NULL,
       topics TEXT NOT NULL DEFAULT '[]',
+      entities TEXT NOT NULL DEFAULT '[]',
+      assets TEXT NOT NULL DEFAULT '[]',
+      quantities TEXT NOT NULL DEFAULT '[]',
+      claim_dates TEXT NOT NULL DEFAULT '[]',
+      stance TEXT,
       corroboration TEXT NOT NULL DEFAULT '[]',
+      linked_markets TEXT NOT NULL DEFAULT '[]',
+      injection_flags TEXT NOT NULL DEFAULT '[]',
       weight REAL NOT NULL DEFAULT 1.0,
       timestamp TEXT NOT NULL,
       processed_at TEXT NOT NULL
@@ -51,15 +62,30 @@ function initSchema(db: Database.Database) {
       avg_engagement REAL NOT NULL DEFAULT 0,
       sentiment_direction TEXT NOT NULL,
       sentiment_confidence REAL NOT NULL DEFAULT 0,
+      sentiment_history TEXT NOT NULL DEFAULT '[]',
+      status TEXT NOT NULL DEFAULT 'active',
+      merged_into TEXT,
       first_seen_at TEXT NOT NULL,
       last_updated_at TEXT NOT NULL
     );
 
+    CREATE TABLE IF NOT EXISTS cluster_events (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      kind TEXT NOT NULL,
+      cluster_id TEXT NOT NULL,
+      related_ids TEXT NOT NULL DEFAULT '[]',
+      details TEXT,
+      created_at TEXT NOT NULL
+    );
+
     CREATE TABLE IF NOT EXISTS trades (
       id TEXT PRIMARY KEY,
       market_id TEXT NOT NULL,
       market_question TEXT NOT NULL,
       direction TEXT NOT NULL,
+      outcome_index INTEGER,
+      token_id TEXT,
+      event_id TEXT,
       decision TEXT NOT NULL,
       size REAL,
       entry_price REAL,
@@ -70,6 +96,7 @@ function initSchema(db: Database.Database) {
       contributing_signal_ids TEXT NOT NULL DEFAULT '[]',
       pass_reason TEXT,
       watch_condition TEXT,
+      cluster_id TEXT,
       status TEXT NOT NULL DEFAULT 'pending',
       exit_price REAL,
       pnl REAL,
@@ -87,20 +114,168 @@ function initSchema(db: Database.Database) {
       first_to_flag_count INTEGER NOT NULL DEFAULT 0,
       total_pnl_from_signals REAL NOT NULL DEFAULT 0,
       best_signal TEXT,
+      first_seen_at TEXT,
       updated_at TEXT NOT NULL
     );
 
+    CREATE TABLE IF NOT EXISTS brigade_flags (
+      id TEXT PRIMARY KEY,
+      cluster_name TEXT NOT NULL,
+      signal_ids TEXT NOT NULL DEFAULT '[]',
+      handles TEXT NOT NULL DEFAULT '[]',
+      score REAL NOT NULL,
+      reasons TEXT NOT NULL DEFAULT '[]',
+      created_at TEXT NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS tweet_cache (
+      tweet_id TEXT PRIMARY KEY,
+      data TEXT NOT NULL,
+      parent_id TEXT,
+      fetched_at TEXT NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS link_cache (
+      url TEXT PRIMARY KEY,
+      data TEXT,
+      transient INTEGER NOT NULL DEFAULT 0,
+      fetched_at TEXT NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS llm_cache (
+      key TEXT PRIMARY KEY,
+      stage TEXT NOT NULL,
+      response TEXT NOT NULL,
+      hits INTEGER NOT NULL DEFAULT 0,
+      created_at TEXT NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS llm_usage (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      stage TEXT NOT NULL,
+      model TEXT NOT NULL,
+      input_tokens INTEGER NOT NULL,
+      output_tokens INTEGER NOT NULL,
+      cost_usd REAL NOT NULL,
+      cached INTEGER NOT NULL DEFAULT 0,
+      created_at TEXT NOT NULL
+    );
+
     CREATE TABLE IF NOT EXISTS campaign_state (
       key TEXT PRIMARY KEY,
       value TEXT NOT NULL
     );
 
+    CREATE TABLE IF NOT EXISTS events (
+      id TEXT PRIMARY KEY,
+      slug TEXT NOT NULL,
+      title TEXT NOT NULL,
+      category TEXT,
+      tags TEXT NOT NULL DEFAULT '[]',
+      end_date TEXT,
+      neg_risk INTEGER NOT NULL DEFAULT 0,
+      volume REAL NOT NULL DEFAULT 0,
+      liquidity REAL NOT NULL DEFAULT 0,
+      closed INTEGER NOT NULL DEFAULT 0,
+      updated_at TEXT,
+      synced_at TEXT NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS markets (
+      condition_id TEXT PRIMARY KEY,
+      slug TEXT NOT NULL,
+      question TEXT NOT NULL,
+      description TEXT,
+      event_id TEXT,
+      outcomes TEXT NOT NULL DEFAULT '[]',
+      outcome_prices TEXT NOT NULL DEFAULT '[]',
+      token_ids TEXT NOT NULL DEFAULT '[]',
+      outcome_name TEXT,
+      volume REAL NOT NULL DEFAULT 0,
+      liquidity REAL NOT NULL DEFAULT 0,
+      end_date TEXT,
+      category TEXT,
+      tags TEXT NOT NULL DEFAULT '[]',
+      neg_risk INTEGER NOT NULL DEFAULT 0,
+      active INTEGER NOT NULL DEFAULT 1,
+      closed INTEGER NOT NULL DEFAULT 0,
+      updated_at TEXT,
+      synced_at TEXT NOT NULL
+    );
+
+    -- BM25 search over open markets; rows are kept in step with markets by saveCatalog
+    CREATE VIRTUAL TABLE IF NOT EXISTS market_search USING fts5(
+      condition_id UNINDEXED,
+      question,
+      event_title,
+      tags,
+      description,
+      tokenize = 'porter unicode61'
+    );
+
     CREATE INDEX IF NOT EXISTS idx_signals_timestamp ON signals(timestamp);
     CREATE INDEX IF NOT EXISTS idx_signals_user ON signals(user_handle);
     CREATE INDEX IF NOT EXISTS idx_signals_topics ON signals(topics);
     CREATE INDEX IF NOT EXISTS idx_trades_status ON trades(status);
     CREATE INDEX IF NOT EXISTS idx_trades_market ON trades(market_id);
+    CREATE INDEX IF NOT EXISTS idx_tweet_cache_fetched ON tweet_cache(fetched_at);
+    CREATE INDEX IF NOT EXISTS idx_llm_cache_created ON llm_cache(created_at);
+    CREATE INDEX IF NOT EXISTS idx_cluster_events_cluster ON cluster_events(cluster_id);
+    CREATE INDEX IF NOT EXISTS idx_llm_usage_created ON llm_usage(created_at);
+    CREATE INDEX IF NOT EXISTS idx_markets_open ON markets(closed, volume);
+    CREATE INDEX IF NOT EXISTS idx_markets_event ON markets(event_id);
+    CREATE INDEX IF NOT EXISTS idx_markets_slug ON markets(slug);
+    CREATE INDEX IF NOT EXISTS idx_events_slug ON events(slug);
   `);
+
+  // Columns added after the initial schema — CREATE TABLE IF NOT EXISTS
+  // won't add them to an existing database
+  addColumnIfMissing(db, "signals", "media", "TEXT NOT NULL DEFAULT '[]'");
+  addColumnIfMissing(db, "signals", "linked_markets", "TEXT NOT NULL DEFAULT '[]'");
+  addColumnIfMissing(db, "signals", "in_reply_to_id", "TEXT");
+  addColumnIfMissing(db, "signals", "conversation_context", "TEXT NOT NULL DEFAULT '[]'");
+  addColumnIfMissing(db, "signals", "quoted_tweet", "TEXT");
+  addColumnIfMissing(db, "contributors", "first_seen_at", "TEXT");
+  addColumnIfMissing(db, "signals", "injection_flags", "TEXT NOT NULL DEFAULT '[]'");
+  addColumnIfMissing(db, "signals", "entities", "TEXT NOT NULL DEFAULT '[]'");
+  addColumnIfMissing(db, "signals", "assets", "TEXT NOT NULL DEFAULT '[]'");
+  addColumnIfMissing(db, "signals", "quantities", "TEXT NOT NULL DEFAULT '[]'");
+  addColumnIfMissing(db, "signals", "claim_dates", "TEXT NOT NULL DEFAULT '[]'");
+  addColumnIfMissing(db, "signals", "stance", "TEXT");
+  addColumnIfMissing(db, "topic_clusters", "sentiment_history", "TEXT NOT NULL DEFAULT '[]'");
+  addColumnIfMissing(db, "topic_clusters", "status", "TEXT NOT NULL DEFAULT 'active'");
+  addColumnIfMissing(db, "topic_clusters", "merged_into", "TEXT");
+  addColumnIfMissing(db, "trades", "cluster_id", "TEXT");
+  addColumnIfMissing(db, "markets", "description", "TEXT");
+  addColumnIfMissing(db, "markets", "token_ids", "TEXT NOT NULL DEFAULT '[]'");
+  addColumnIfMissing(db, "markets", "outcome_name", "TEXT");
+  addColumnIfMissing(db, "trades", "outcome_index", "INTEGER");
+  addColumnIfMissing(db, "trades", "token_id", "TEXT");
+  addColumnIfMissing(db, "trades", "event_id", "TEXT");
+  addColumnIfMissing(db, "link_cache", "transient", "INTEGER NOT NULL DEFAULT 0");
+
+  // Indexes on migrated columns can only be created once the columns exist
+  db.exec(`
+    CREATE INDEX IF NOT EXISTS idx_clusters_updated ON topic_clusters(status, last_updated_at);
+  `);
+
+  // Catalogs synced before the search index existed
+  const indexed = db.prepare(`SELECT 1 FROM market_search LIMIT 1`).get();
+  if (!indexed) {
+    db.exec(`
+      INSERT INTO market_search (condition_id, question, event_title, tags, description)
+      SELECT m.condition_id, m.question, COALESCE(e.title, ''), m.tags, COALESCE(m.description, '')
+      FROM markets m LEFT JOIN events e ON e.id = m.event_id
+      WHERE m.closed = 0
+    `);
+  }
+}
+
+function addColumnIfMissing(db: Database.Database, table: string, column: string, definition: string) {
+  const columns = db.prepare(`PRAGMA table_info(${table})`).all() as Array<{ name: string }>;
+  if (!columns.some((c) => c.name === column)) {
+    db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  }
 }
 
 export function closeDb() {
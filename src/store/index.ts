@@ -2,9 +2,37 @@ export { getDb, closeDb } from "./db.js";
 export {
   saveSignal,
   getRecentSignals,
+  getSignalsByIds,
+  getSignalActivity,
   getSignalCountToday,
   getUserSignalCountToday,
   updateContributor,
   getTopContributors,
+  getContributor,
+  getContributors,
+  getContributorFirstSeen,
+  getCampaignFirstSeen,
 } from "./signals.js";
-export { saveTrade, getOpenTrades, closeTrade, getTradeStats } from "./trades.js";
+export { saveTrade, getOpenTrades, findTradesByMarket, closeTrade, getTradeStats } from "./trades.js";
+export { getState, setState } from "./state.js";
+export { cacheTweet, getCachedTweet, pruneTweetCache } from "./tweets.js";
+export { cacheLink, getCachedLink } from "./links.js";
+export { flagBrigade } from "./brigades.js";
+export { cacheLLMResponse, getCachedLLMResponse, pruneLLMCache } from "./llm-cache.js";
+export { recordLLMUsage, getLLMUsageSince, getLLMSpendToday, pruneLLMUsage } from "./llm-usage.js";
+export {
+  saveCluster,
+  getActiveClusters,
+  markClusterMerged,
+  recordClusterEvent,
+  type StoredCluster,
+} from "./clusters.js";
+export {
+  saveCatalog,
+  retireUnsynced,
+  getOpenMarkets,
+  getCatalogMarkets,
+  getEventMarkets,
+  searchMarketIndex,
+  getCatalogSize,
+} from "./markets.js";
@@ -0,0 +1,36 @@
+import { getDb } from "./db.js";
+import type { LinkPreview } from "../types/index.js";
+
+/**
+ * Cache a resolved link. `preview` is null for URLs that couldn't be
+ * unfurled, so we don't keep refetching dead or non-HTML links. A
+ * `transient` failure (timeout, server error) is kept for a shorter time.
+ */
+export function cacheLink(url: string, preview: LinkPreview | null, transient = false) {
+  const db = getDb();
+  db.prepare(`
+    INSERT INTO link_cache (url, data, transient, fetched_at) VALUES (?, ?, ?, ?)
+    ON CONFLICT(url) DO UPDATE SET data = excluded.data, transient = excluded.transient, fetched_at = excluded.fetched_at
+  `).run(url, preview ? JSON.stringify(preview) : null, transient ? 1 : 0, new Date().toISOString());
+}
+
+/**
+ * Look up a cached link. Returns undefined on a miss (or expired entry),
+ * null when the URL is cached as unresolvable. Transient failures expire
+ * after `transientMaxAgeMs`.
+ */
+export function getCachedLink(
+  url: string,
+  maxAgeMs: number,
+  transientMaxAgeMs = maxAgeMs
+): LinkPreview | null | undefined {
+  const db = getDb();
+  const cutoff = new Date(Date.now() - maxAgeMs).toISOString();
+  const transientCutoff = new Date(Date.now() - transientMaxAgeMs).toISOString();
+  const row: any = db.prepare(`
+    SELECT data FROM link_cache
+    WHERE url = ? AND fetched_at > CASE WHEN transient = 1 THEN ? ELSE ? END
+  `).get(url, transientCutoff, cutoff);
+  if (!row) return undefined;
+  return row.data ? JSON.parse(row.data) : null;
+}
@@ -0,0 +1,45 @@
+import { getDb } from "./db.js";
+import type { LLMStage } from "../types/index.js";
+
+/**
+ * Store a model response under its content hash.
+ */
+export function cacheLLMResponse(key: string, stage: LLMStage, response: unknown) {
+  const db = getDb();
+  db.prepare(`
+    INSERT INTO llm_cache (key, stage, response, hits, created_at) VALUES (?, ?, ?, 0, ?)
+    ON CONFLICT(key) DO UPDATE SET
+      response = excluded.response,
+      hits = 0,
+      created_at = excluded.created_at
+  `).run(key, stage, JSON.stringify(response), new Date().toISOString());
+}
+
+/**
+ * Look up a cached response and count the hit. Entries older than
+ * `maxAgeMs` are misses.
+ */
+export function getCachedLLMResponse<T>(key: string, maxAgeMs: number): T | undefined {
+  const db = getDb();
+  const cutoff = new Date(Date.now() - maxAgeMs).toISOString();
+  const row: any = db.prepare(`
+    SELECT response FROM llm_cache WHERE key = ? AND created_at > ?
+  `).get(key, cutoff);
+  if (!row) return undefined;
+
+  db.prepare(`UPDATE llm_cache SET hits = hits + 1 WHERE key = ?`).run(key);
+  return JSON.parse(row.response);
+}
+
+/**
+ * Delete cache entries older than `maxAgeMs`, of one stage or all of them.
+ * Returns the number removed.
+ */
+export function pruneLLMCache(maxAgeMs: number, stage?: LLMStage): number {
+  const db = getDb();
+  const cutoff = new Date(Date.now() - maxAgeMs).toISOString();
+  if (stage) {
+    return db.prepare(`DELETE FROM llm_cache WHERE stage = ? AND created_at <= ?`).run(stage, cutoff).changes;
+  }
+  return db.prepare(`DELETE FROM llm_cache WHERE created_at <= ?`).run(cutoff).changes;
+}
@@ -0,0 +1,80 @@
+import { getDb } from "./db.js";
+import type { LLMStage, LLMUsageTotals } from "../types/index.js";
+
+/**
+ * Record the token usage and cost of one model call.
+ */
+export function recordLLMUsage(usage: {
+  stage: LLMStage;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+  cached: boolean;
+}) {
+  const db = getDb();
+  db.prepare(`
+    INSERT INTO llm_usage (stage, model, input_tokens, output_tokens, cost_usd, cached, created_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
+  `).run(
+    usage.stage,
+    usage.model,
+    usage.inputTokens,
+    usage.outputTokens,
+    usage.costUsd,
+    usage.cached ? 1 : 0,
+    new Date().toISOString()
+  );
+}
+
+/**
+ * Usage totals per stage since `since`.
+ */
+export function getLLMUsageSince(since: Date): Partial<Record<LLMStage, LLMUsageTotals>> {
+  const db = getDb();
+  const rows: any[] = db.prepare(`
+    SELECT stage,
+           COUNT(*) as calls,
+           SUM(cached) as cached_calls,
+           SUM(input_tokens) as input_tokens,
+           SUM(output_tokens) as output_tokens,
+           SUM(cost_usd) as cost_usd
+    FROM llm_usage WHERE created_at > ?
+    GROUP BY stage
+  `).all(since.toISOString());
+
+  return Object.fromEntries(
+    rows.map((r) => [
+      r.stage,
+      {
+        calls: r.calls,
+        cachedCalls: r.cached_calls,
+        inputTokens: r.input_tokens,
+        outputTokens: r.output_tokens,
+        costUsd: r.cost_usd,
+      },
+    ])
+  );
+}
+
+/**
+ * Total spend today (local midnight onwards), across all stages.
+ */
+export function getLLMSpendToday(): number {
+  const db = getDb();
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+  const row: any = db.prepare(`
+    SELECT COALESCE(SUM(cost_usd), 0) as cost FROM llm_usage WHERE created_at > ?
+  `).get(today.toISOString());
+  return row.cost;
+}
+
+/**
+ * Delete usage records older than `maxAgeMs`. Returns the number removed.
+ */
+export function pruneLLMUsage(maxAgeMs: number): number {
+  const db = getDb();
+  const cutoff = new Date(Date.now() - maxAgeMs).toISOString();
+  return db.prepare(`DELETE FROM llm_usage WHERE created_at <= ?`).run(cutoff).changes;
+}
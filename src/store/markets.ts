@@ -0,0 +1,220 @@
+import { getDb } from "./db.js";
+import type { PolymarketEvent, PolymarketMarket } from "../types/index.js";
+
+/**
+ * Upsert a page of the catalog in one transaction. Fields a source leaves
+ * empty (the markets endpoint carries no tags) keep their stored values,
+ * and negRisk, which never goes away once set, is never cleared.
+ */
+export function saveCatalog(events: PolymarketEvent[], markets: PolymarketMarket[], syncedAt = new Date()) {
+  const db = getDb();
+  const now = syncedAt.toISOString();
+
+  const upsertEvent = db.prepare(`
+    INSERT INTO events (
+      id, slug, title, category, tags, end_date, neg_risk, volume, liquidity, closed, updated_at, synced_at
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    ON CONFLICT(id) DO UPDATE SET
+      slug = excluded.slug,
+      title = excluded.title,
+      category = COALESCE(excluded.category, events.category),
+      tags = CASE WHEN excluded.tags = '[]' THEN events.tags ELSE excluded.tags END,
+      end_date = COALESCE(excluded.end_date, events.end_date),
+      neg_risk = excluded.neg_risk,
+      volume = excluded.volume,
+      liquidity = excluded.liquidity,
+      closed = excluded.closed,
+      updated_at = COALESCE(excluded.updated_at, events.updated_at),
+      synced_at = excluded.synced_at
+  `);
+
+  const upsertMarket = db.prepare(`
+    INSERT INTO markets (
+      condition_id, slug, question, description, event_id, outcomes, outcome_prices, token_ids, outcome_name,
+      volume, liquidity, end_date, category, tags, neg_risk, active, closed, updated_at, synced_at
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    ON CONFLICT(condition_id) DO UPDATE SET
+      slug = excluded.slug,
+      question = excluded.question,
+      description = COALESCE(excluded.description, markets.description),
+      event_id = COALESCE(excluded.event_id, markets.event_id),
+      outcomes = excluded.outcomes,
+      outcome_prices = excluded.outcome_prices,
+      token_ids = CASE WHEN excluded.token_ids = '[]' THEN markets.token_ids ELSE excluded.token_ids END,
+      outcome_name = COALESCE(excluded.outcome_name, markets.outcome_name),
+      volume = excluded.volume,
+      liquidity = excluded.liquidity,
+      end_date = COALESCE(excluded.end_date, markets.end_date),
+      category = COALESCE(excluded.category, markets.category),
+      tags = CASE WHEN excluded.tags = '[]' THEN markets.tags ELSE excluded.tags END,
+      neg_risk = MAX(excluded.neg_risk, markets.neg_risk),
+      active = excluded.active,
+      closed = excluded.closed,
+      updated_at = COALESCE(excluded.updated_at, markets.updated_at),
+      synced_at = excluded.synced_at
+  `);
+
+  // Rebuilt from the stored row, so fields this page left empty stay searchable
+  const unindex = db.prepare(`DELETE FROM market_search WHERE condition_id = ?`);
+  const index = db.prepare(`
+    INSERT INTO market_search (condition_id, question, event_title, tags, description)
+    SELECT m.condition_id, m.question, COALESCE(e.title, ''), m.tags, COALESCE(m.description, '')
+    FROM markets m LEFT JOIN events e ON e.id = m.event_id
+    WHERE m.condition_id = ? AND m.closed = 0
+  `);
+
+  db.transaction(() => {
+    for (const e of events) {
+      upsertEvent.run(
+        e.id,
+        e.slug,
+        e.title,
+        e.category || null,
+        JSON.stringify(e.tags),
+        e.endDate || null,
+        e.negRisk ? 1 : 0,
+        e.volume,
+        e.liquidity,
+        e.closed ? 1 : 0,
+        e.updatedAt || null,
+        now
+      );
+    }
+    for (const m of markets) {
+      if (!m.conditionId) continue;
+      upsertMarket.run(
+        m.conditionId,
+        m.slug,
+        m.question,
+        m.description || null,
+        m.eventId || null,
+        JSON.stringify(m.outcomes),
+        JSON.stringify(m.outcomePrices),
+        JSON.stringify(m.tokenIds || []),
+        m.outcomeName || null,
+        m.volume,
+        m.liquidity,
+        m.endDate || null,
+        m.category || null,
+        JSON.stringify(m.tags || []),
+        m.negRisk ? 1 : 0,
+        m.active ? 1 : 0,
+        m.closed ? 1 : 0,
+        m.updatedAt || null,
+        now
+      );
+      unindex.run(m.conditionId);
+      index.run(m.conditionId);
+    }
+  })();
+}
+
+/**
+ * Close every open market and event no sync has seen since `since` — they
+ * have closed or been removed upstream.
+ */
+export function retireUnsynced(since: Date): { events: number; markets: number } {
+  const db = getDb();
+  const cutoff = since.toISOString();
+  const events = db.prepare(`UPDATE events SET closed = 1 WHERE closed = 0 AND synced_at < ?`).run(cutoff).changes;
+  const markets = db.prepare(`
+    UPDATE markets SET closed = 1, active = 0 WHERE closed = 0 AND synced_at < ?
+  `).run(cutoff).changes;
+  db.prepare(`
+    DELETE FROM market_search WHERE condition_id IN (SELECT condition_id FROM markets WHERE closed = 1)
+  `).run();
+  return { events, markets };
+}
+
+/**
+ * Open markets in the catalog, highest volume first.
+ */
+export function getOpenMarkets(limit?: number): PolymarketMarket[] {
+  const db = getDb();
+  const rows: any[] = db.prepare(`
+    SELECT m.*, e.slug AS event_slug, e.title AS event_title FROM markets m LEFT JOIN events e ON e.id = m.event_id
+    WHERE m.closed = 0 AND m.active = 1
+    ORDER BY m.volume DESC
+    ${limit ? "LIMIT ?" : ""}
+  `).all(...(limit ? [limit] : []));
+  return rows.map(rowToMarket);
+}
+
+/**
+ * Open markets of an event, highest priced first. The markets of a
+ * negative-risk event are its mutually exclusive outcomes.
+ */
+export function getEventMarkets(eventId: string): PolymarketMarket[] {
+  const db = getDb();
+  const rows: any[] = db.prepare(`
+    SELECT m.*, e.slug AS event_slug, e.title AS event_title FROM markets m LEFT JOIN events e ON e.id = m.event_id
+    WHERE m.event_id = ? AND m.closed = 0 AND m.active = 1
+  `).all(eventId);
+  return rows.map(rowToMarket).sort((a, b) => (b.outcomePrices[0] ?? 0) - (a.outcomePrices[0] ?? 0));
+}
+
+export function getCatalogMarkets(conditionIds: string[]): PolymarketMarket[] {
+  if (conditionIds.length === 0) return [];
+  const db = getDb();
+  const placeholders = conditionIds.map(() => "?").join(", ");
+  const rows: any[] = db.prepare(`
+    SELECT m.*, e.slug AS event_slug, e.title AS event_title FROM markets m LEFT JOIN events e ON e.id = m.event_id
+    WHERE m.condition_id IN (${placeholders})
+  `).all(...conditionIds);
+  return rows.map(rowToMarket);
+}
+
+/**
+ * Open markets matching any of `terms`, best BM25 match first. Questions
+ * count most, then event titles and tags, then the resolution rules.
+ */
+export function searchMarketIndex(terms: string[], limit = 20): Array<{ market: PolymarketMarket; score: number }> {
+  const query = [...new Set(terms.map((t) => t.trim()).filter(Boolean))]
+    .map((t) => `"${t.replace(/"/g, '""')}"`)
+    .join(" OR ");
+  if (!query) return [];
+
+  const db = getDb();
+  const rows: any[] = db.prepare(`
+    SELECT m.*, e.slug AS event_slug, e.title AS event_title, -bm25(market_search, 0, 4.0, 2.0, 1.5, 0.5) AS score
+    FROM market_search
+    JOIN markets m ON m.condition_id = market_search.condition_id
+    LEFT JOIN events e ON e.id = m.event_id
+    WHERE market_search MATCH ? AND m.closed = 0 AND m.active = 1
+    ORDER BY score DESC
+    LIMIT ?
+  `).all(query, limit);
+  return rows.map((r) => ({ market: rowToMarket(r), score: r.score }));
+}
+
+export function getCatalogSize(): { events: number; markets: number } {
+  const db = getDb();
+  const events: any = db.prepare(`SELECT COUNT(*) AS count FROM events WHERE closed = 0`).get();
+  const markets: any = db.prepare(`SELECT COUNT(*) AS count FROM markets WHERE closed = 0 AND active = 1`).get();
+  return { events: events.count, markets: markets.count };
+}
+
+function rowToMarket(r: any): PolymarketMarket {
+  return {
+    conditionId: r.condition_id,
+    slug: r.slug,
+    question: r.question,
+    description: r.description || undefined,
+    outcomes: JSON.parse(r.outcomes),
+    outcomePrices: JSON.parse(r.outcome_prices),
+    tokenIds: JSON.parse(r.token_ids),
+    volume: r.volume,
+    liquidity: r.liquidity,
+    endDate: r.end_date || "",
+    active: r.active === 1 && r.closed === 0,
+    closed: r.closed === 1,
+    eventId: r.event_id || undefined,
+    eventSlug: r.event_slug || undefined,
+    eventTitle: r.event_title || undefined,
+    outcomeName: r.outcome_name || undefined,
+    category: r.category || undefined,
+    tags: JSON.parse(r.tags),
+    negRisk: r.neg_risk === 1,
+    updatedAt: r.updated_at || undefined,
+  };
+}
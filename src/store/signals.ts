@@ -1,15 +1,17 @@
 import { getDb } from "./db.js";
-import type { EnrichedSignal, Contributor } from "../types/index.js";
+import type { EnrichedSignal, Contributor, ConversationTweet, SignalActivity } from "../types/index.js";
 
 export function saveSignal(signal: EnrichedSignal) {
   const db = getDb();
   db.prepare(`
     INSERT OR IGNORE INTO signals (
       id, tweet_id, user_handle, user_id, user_followers, user_account_age_days,
-      text, urls, likes, retweets, replies, quote_tweets,
-      signal_type, core_claim, urgency, topics, corroboration, weight,
+      text, urls, media, in_reply_to_id, conversation_context, quoted_tweet,
+      likes, retweets, replies, quote_tweets,
+      signal_type, core_claim, urgency, topics, entities, assets, quantities, claim_dates, stance,
+      corroboration, linked_markets, injection_flags, weight,
       timestamp, processed_at
-    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
   `).run(
     signal.id,
     signal.raw.tweetId,
@@ -19,6 +21,10 @@ export function saveSignal(signal: EnrichedSignal) {
     signal.raw.user.accountAgeDays,
     signal.raw.text,
     JSON.stringify(signal.raw.urls),
+    JSON.stringify(signal.raw.media),
+    signal.raw.inReplyToId || null,
+    JSON.stringify(signal.raw.conversationContext),
+    signal.raw.quotedTweet ? JSON.stringify(signal.raw.quotedTweet) : null,
     signal.raw.engagement.likes,
     signal.raw.engagement.retweets,
     signal.raw.engagement.replies,
@@ -27,7 +33,14 @@ export function saveSignal(signal: EnrichedSignal) {
     signal.coreClaim,
     signal.urgency,
     JSON.stringify(signal.topics),
+    JSON.stringify(signal.entities),
+    JSON.stringify(signal.assets),
+    JSON.stringify(signal.quantities),
+    JSON.stringify(signal.dates),
+    signal.stance ? JSON.stringify(signal.stance) : null,
     JSON.stringify(signal.corroboration),
+    JSON.stringify(signal.linkedMarkets),
+    JSON.stringify(signal.injectionFlags),
     signal.weight,
     signal.raw.timestamp.toISOString(),
     signal.processedAt.toISOString()
@@ -44,6 +57,32 @@ export function getRecentSignals(hoursBack = 24): EnrichedSignal[] {
   return rows.map(rowToSignal);
 }
 
+export function getSignalsByIds(ids: string[]): EnrichedSignal[] {
+  if (ids.length === 0) return [];
+  const db = getDb();
+  const placeholders = ids.map(() => "?").join(", ");
+  const rows: any[] = db.prepare(`
+    SELECT * FROM signals WHERE id IN (${placeholders}) ORDER BY timestamp ASC
+  `).all(...ids);
+
+  return rows.map(rowToSignal);
+}
+
+/**
+ * Who posted each of the given signals and when, oldest first — enough to
+ * measure a cluster's pace without loading the signals themselves.
+ */
+export function getSignalActivity(ids: string[]): SignalActivity[] {
+  if (ids.length === 0) return [];
+  const db = getDb();
+  const placeholders = ids.map(() => "?").join(", ");
+  const rows: any[] = db.prepare(`
+    SELECT id, user_id, user_handle, timestamp FROM signals WHERE id IN (${placeholders}) ORDER BY timestamp ASC
+  `).all(...ids);
+
+  return rows.map((r) => ({ signalId: r.id, userId: r.user_id, handle: r.user_handle, at: new Date(r.timestamp) }));
+}
+
 export function getSignalCountToday(): { count: number; uniqueUsers: number } {
   const db = getDb();
   const today = new Date();
@@ -69,12 +108,12 @@ export function getUserSignalCountToday(userHandle: string): number {
 export function updateContributor(signal: EnrichedSignal) {
   const db = getDb();
   db.prepare(`
-    INSERT INTO contributors (user_id, handle, signals_sent, updated_at)
-    VALUES (?, ?, 1, ?)
+    INSERT INTO contributors (user_id, handle, signals_sent, first_seen_at, updated_at)
+    VALUES (?, ?, 1, ?, ?)
     ON CONFLICT(user_id) DO UPDATE SET
       signals_sent = signals_sent + 1,
       updated_at = excluded.updated_at
-  `).run(signal.raw.user.id, signal.raw.user.handle, new Date().toISOString());
+  `).run(signal.raw.user.id, signal.raw.user.handle, signal.raw.timestamp.toISOString(), new Date().toISOString());
 }
 
 export function getTopContributors(limit = 5): Contributor[] {
@@ -85,7 +124,52 @@ export function getTopContributors(limit = 5): Contributor[] {
     LIMIT ?
   `).all(limit);
 
-  return rows.map((r) => ({
+  return rows.map(rowToContributor);
+}
+
+export function getContributor(userId: string): Contributor | undefined {
+  const db = getDb();
+  const row: any = db.prepare(`SELECT * FROM contributors WHERE user_id = ?`).get(userId);
+  return row ? rowToContributor(row) : undefined;
+}
+
+export function getContributors(userIds: string[]): Map<string, Contributor> {
+  if (userIds.length === 0) return new Map();
+  const db = getDb();
+  const placeholders = userIds.map(() => "?").join(", ");
+  const rows: any[] = db.prepare(`SELECT * FROM contributors WHERE user_id IN (${placeholders})`).all(...userIds);
+  return new Map(rows.map((r) => [r.user_id, rowToContributor(r)]));
+}
+
+/**
+ * When each contributor first signalled the campaign (falls back to their
+ * last update for rows created before first_seen_at was tracked).
+ */
+export function getContributorFirstSeen(userIds: string[]): Map<string, Date> {
+  if (userIds.length === 0) return new Map();
+  const db = getDb();
+  const placeholders = userIds.map(() => "?").join(", ");
+  const rows: any[] = db.prepare(`
+    SELECT user_id, COALESCE(first_seen_at, updated_at) as first_seen FROM contributors
+    WHERE user_id IN (${placeholders})
+  `).all(...userIds);
+
+  return new Map(rows.map((r) => [r.user_id, new Date(r.first_seen)]));
+}
+
+/**
+ * When the first contributor signalled the campaign, or null before anyone has.
+ */
+export function getCampaignFirstSeen(): Date | null {
+  const db = getDb();
+  const row: any = db.prepare(`
+    SELECT MIN(COALESCE(first_seen_at, updated_at)) AS first_seen FROM contributors
+  `).get();
+  return row?.first_seen ? new Date(row.first_seen) : null;
+}
+
+function rowToContributor(r: any): Contributor {
+  return {
     handle: r.handle,
     userId: r.user_id,
     signalsSent: r.signals_sent,
@@ -94,7 +178,7 @@ export function getTopContributors(limit = 5): Contributor[] {
     firstToFlagCount: r.first_to_flag_count,
     totalPnlFromSignals: r.total_pnl_from_signals,
     bestSignal: r.best_signal,
-  }));
+  };
 }
 
 function rowToSignal(row: any): EnrichedSignal {
@@ -110,6 +194,7 @@ function rowToSignal(row: any): EnrichedSignal {
         accountAgeDays: row.user_account_age_days,
       },
       urls: JSON.parse(row.urls),
+      media: JSON.parse(row.media),
       engagement: {
         likes: row.likes,
         retweets: row.retweets,
@@ -117,14 +202,27 @@ function rowToSignal(row: any): EnrichedSignal {
         quoteTweets: row.quote_tweets,
       },
       timestamp: new Date(row.timestamp),
-      conversationContext: [],
+      inReplyToId: row.in_reply_to_id || undefined,
+      conversationContext: JSON.parse(row.conversation_context).map(reviveTweet),
+      quotedTweet: row.quoted_tweet ? reviveTweet(JSON.parse(row.quoted_tweet)) : undefined,
     },
     signalType: row.signal_type,
     coreClaim: row.core_claim,
     urgency: row.urgency,
     topics: JSON.parse(row.topics),
+    entities: JSON.parse(row.entities),
+    assets: JSON.parse(row.assets),
+    quantities: JSON.parse(row.quantities),
+    dates: JSON.parse(row.claim_dates),
+    stance: row.stance ? JSON.parse(row.stance) : null,
     corroboration: JSON.parse(row.corroboration),
+    linkedMarkets: JSON.parse(row.linked_markets),
+    injectionFlags: JSON.parse(row.injection_flags),
     weight: row.weight,
     processedAt: new Date(row.processed_at),
   };
 }
+
+function reviveTweet(t: any): ConversationTweet {
+  return { ...t, media: t.media || [], timestamp: new Date(t.timestamp) };
+}
@@ -0,0 +1,21 @@
+import { getDb } from "./db.js";
+
+/**
+ * Read a value from the campaign_state key/value table.
+ */
+export function getState(key: string): string | undefined {
+  const db = getDb();
+  const row: any = db.prepare(`SELECT value FROM campaign_state WHERE key = ?`).get(key);
+  return row?.value;
+}
+
+/**
+ * Upsert a value into the campaign_state key/value table.
+ */
+export function setState(key: string, value: string) {
+  const db = getDb();
+  db.prepare(`
+    INSERT INTO campaign_state (key, value) VALUES (?, ?)
+    ON CONFLICT(key) DO UPDATE SET value = excluded.value
+  `).run(key, value);
+}
@@ -2,35 +2,47 @@ import { getDb } from "./db.js";
 import type { TradeOrder } from "../types/index.js";
 import { generateId } from "../utils/id.js";
 
+/**
+ * Record a decision. A TRADE also counts toward the track record of every
+ * contributor behind it.
+ */
 export function saveTrade(order: TradeOrder, txHash?: string): string {
   const db = getDb();
   const id = generateId("trd");
-  db.prepare(`
-    INSERT INTO trades (
-      id, market_id, market_question, direction, decision,
-      size, entry_price, stop_loss, take_profit, edge_score,
-      reasoning, contributing_signal_ids, pass_reason, watch_condition,
-      status, tx_hash, created_at
-    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
-  `).run(
-    id,
-    order.market.conditionId,
-    order.market.question,
-    order.direction,
-    order.decision,
-    order.size,
-    order.entryPrice,
-    order.stopLoss,
-    order.takeProfit,
-    order.edgeScore,
-    order.reasoning,
-    JSON.stringify(order.contributingSignals.map((s) => s.id)),
-    order.passReason || null,
-    order.watchCondition || null,
-    order.decision === "TRADE" ? "open" : order.decision.toLowerCase(),
-    txHash || null,
-    new Date().toISOString()
-  );
+  const signalIds = order.contributingSignals.map((s) => s.id);
+  db.transaction(() => {
+    db.prepare(`
+      INSERT INTO trades (
+        id, market_id, market_question, direction, outcome_index, token_id, event_id, decision,
+        size, entry_price, stop_loss, take_profit, edge_score,
+        reasoning, contributing_signal_ids, pass_reason, watch_condition, cluster_id,
+        status, tx_hash, created_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      id,
+      order.market.conditionId,
+      order.market.question,
+      order.direction,
+      order.outcome?.index ?? null,
+      order.outcome?.tokenId || null,
+      order.market.negRisk ? order.market.eventId || null : null,
+      order.decision,
+      order.size,
+      order.entryPrice,
+      order.stopLoss,
+      order.takeProfit,
+      order.edgeScore,
+      order.reasoning,
+      JSON.stringify(signalIds),
+      order.passReason || null,
+      order.watchCondition || null,
+      order.clusterId || null,
+      order.decision === "TRADE" ? "open" : order.decision.toLowerCase(),
+      txHash || null,
+      new Date().toISOString()
+    );
+    if (order.decision === "TRADE") creditContributors("signals_that_led_to_trades", signalIds);
+  })();
   return id;
 }
 
@@ -39,12 +51,34 @@ export function getOpenTrades(): any[] {
   return db.prepare(`SELECT * FROM trades WHERE status = 'open'`).all();
 }
 
+/**
+ * Most recent decisions (any status) on markets whose question matches `query`.
+ */
+export function findTradesByMarket(query: string, limit = 1): any[] {
+  const db = getDb();
+  // The query is user text: its own % and _ match literally
+  const escaped = query.replace(/[\\%_]/g, (c) => `\\${c}`);
+  return db.prepare(`
+    SELECT * FROM trades WHERE market_question LIKE ? ESCAPE '\\' ORDER BY created_at DESC LIMIT ?
+  `).all(`%${escaped}%`, limit);
+}
+
+/**
+ * Close a trade at its exit. A profitable close counts toward the track
+ * record of every contributor behind the trade.
+ */
 export function closeTrade(tradeId: string, exitPrice: number, pnl: number) {
   const db = getDb();
-  db.prepare(`
-    UPDATE trades SET status = 'closed', exit_price = ?, pnl = ?, closed_at = ?
-    WHERE id = ?
-  `).run(exitPrice, pnl, new Date().toISOString(), tradeId);
+  db.transaction(() => {
+    db.prepare(`
+      UPDATE trades SET status = 'closed', exit_price = ?, pnl = ?, closed_at = ?
+      WHERE id = ?
+    `).run(exitPrice, pnl, new Date().toISOString(), tradeId);
+    if (pnl > 0) {
+      const row: any = db.prepare(`SELECT contributing_signal_ids FROM trades WHERE id = ?`).get(tradeId);
+      if (row) creditContributors("profitable_contributions", JSON.parse(row.contributing_signal_ids));
+    }
+  })();
 }
 
 export function getTradeStats(since?: Date): { trades: number; wins: number; losses: number; pnl: number } {
@@ -61,3 +95,17 @@ export function getTradeStats(since?: Date): { trades: number; wins: number; los
     pnl: rows.reduce((sum, r) => sum + (r.pnl || 0), 0),
   };
 }
+
+/**
+ * Add one to a track-record counter of each distinct contributor who sent
+ * one of the signals.
+ */
+function creditContributors(counter: "signals_that_led_to_trades" | "profitable_contributions", signalIds: string[]) {
+  if (signalIds.length === 0) return;
+  const db = getDb();
+  const placeholders = signalIds.map(() => "?").join(", ");
+  db.prepare(`
+    UPDATE contributors SET ${counter} = ${counter} + 1, updated_at = ?
+    WHERE user_id IN (SELECT DISTINCT user_id FROM signals WHERE id IN (${placeholders}))
+  `).run(new Date().toISOString(), ...signalIds);
+}
@@ -0,0 +1,49 @@
+import { getDb } from "./db.js";
+import type { ConversationTweet } from "../types/index.js";
+
+/**
+ * Cache a resolved tweet, along with the id of the tweet it replies to
+ * (if any) so chain walks can continue upward from the cache.
+ */
+export function cacheTweet(tweet: ConversationTweet, parentId?: string) {
+  const db = getDb();
+  db.prepare(`
+    INSERT INTO tweet_cache (tweet_id, data, parent_id, fetched_at)
+    VALUES (?, ?, ?, ?)
+    ON CONFLICT(tweet_id) DO UPDATE SET
+      data = excluded.data,
+      parent_id = excluded.parent_id,
+      fetched_at = excluded.fetched_at
+  `).run(tweet.tweetId, JSON.stringify(tweet), parentId || null, new Date().toISOString());
+}
+
+/**
+ * Look up a cached tweet. Entries older than `maxAgeMs` are treated as
+ * misses so engagement numbers don't go too stale.
+ */
+export function getCachedTweet(
+  tweetId: string,
+  maxAgeMs: number
+): { tweet: ConversationTweet; parentId?: string } | undefined {
+  const db = getDb();
+  const cutoff = new Date(Date.now() - maxAgeMs).toISOString();
+  const row: any = db.prepare(`
+    SELECT data, parent_id FROM tweet_cache WHERE tweet_id = ? AND fetched_at > ?
+  `).get(tweetId, cutoff);
+  if (!row) return undefined;
+
+  const data = JSON.parse(row.data);
+  return {
+    tweet: { ...data, media: data.media || [], timestamp: new Date(data.timestamp) },
+    parentId: row.parent_id || undefined,
+  };
+}
+
+/**
+ * Delete cache entries older than `maxAgeMs`. Returns the number removed.
+ */
+export function pruneTweetCache(maxAgeMs: number): number {
+  const db = getDb();
+  const cutoff = new Date(Date.now() - maxAgeMs).toISOString();
+  return db.prepare(`DELETE FROM tweet_cache WHERE fetched_at <= ?`).run(cutoff).changes;
+}
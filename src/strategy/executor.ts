@@ -1,11 +1,21 @@
 import type { TradeOrder } from "../types/index.js";
+import { isBinary } from "../sensemaking/outcomes.js";
+
+/**
+ * Where orders go: the live Vincent API, or nowhere in a replay.
+ */
+export interface OrderExecutor {
+  placeBet(order: TradeOrder): Promise<{ success: boolean; txHash?: string; error?: string }>;
+  setExitRules(order: TradeOrder): Promise<void>;
+  getPositions(): Promise<any[]>;
+}
 
 /**
  * Execute a trade via the Vincent API (Trade Manager on the VPS).
  * In production this calls the local Trade Manager HTTP API.
  * Currently a placeholder for integration.
  */
-export class TradeExecutor {
+export class TradeExecutor implements OrderExecutor {
   private vincentApiUrl: string;
   private vincentApiKey: string;
 
@@ -15,9 +25,20 @@ export class TradeExecutor {
   }
 
   /**
-   * Place a bet on Polymarket via the Vincent API.
+   * Place a bet on Polymarket via the Vincent API. Binary markets take the
+   * direction ("YES"/"NO"); any other outcome can only be named by its token,
+   * so an order for one without a token id is refused rather than guessed.
    */
   async placeBet(order: TradeOrder): Promise<{ success: boolean; txHash?: string; error?: string }> {
+    const binary = isBinary(order.market);
+    const tokenId = order.outcome?.tokenId;
+    if (!binary && !tokenId) {
+      return {
+        success: false,
+        error: `No token id for "${order.outcome?.label ?? order.direction}" on multi-outcome market "${order.market.question}"`,
+      };
+    }
+
     try {
       const response = await fetch(`${this.vincentApiUrl}/api/skills/polymarket/bet`, {
         method: "POST",
@@ -27,7 +48,8 @@ export class TradeExecutor {
         },
         body: JSON.stringify({
           marketId: order.market.conditionId,
-          outcome: order.direction,
+          tokenId,
+          outcome: binary ? order.direction : order.outcome!.label,
           amount: order.size,
           price: order.entryPrice,
         }),
@@ -46,7 +68,8 @@ export class TradeExecutor {
   }
 
   /**
-   * Set stop-loss and take-profit rules on the Trade Manager daemon.
+   * Set stop-loss and take-profit rules on the Trade Manager daemon, against
+   * the price of the outcome token held.
    */
   async setExitRules(order: TradeOrder): Promise<void> {
     const tradeManagerUrl = "http://localhost:19000";
@@ -58,6 +81,7 @@ export class TradeExecutor {
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
           marketId: order.market.conditionId,
+          tokenId: order.outcome?.tokenId,
           ruleType: "STOP_LOSS",
           triggerPrice: order.stopLoss,
           action: { type: "SELL_ALL" },
@@ -72,6 +96,7 @@ export class TradeExecutor {
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
           marketId: order.market.conditionId,
+          tokenId: order.outcome?.tokenId,
           ruleType: "TAKE_PROFIT",
           triggerPrice: order.takeProfit,
           action: { type: "SELL_ALL" },
@@ -97,3 +122,25 @@ export class TradeExecutor {
     }
   }
 }
+
+/**
+ * Accepts every order without sending it anywhere, for replays and demos:
+ * recorded mentions are rebased onto the wall clock, so a replayed session
+ * would otherwise place real orders on live markets.
+ */
+export class DryRunExecutor implements OrderExecutor {
+  async placeBet(order: TradeOrder): Promise<{ success: boolean; txHash?: string; error?: string }> {
+    console.log(
+      `[DryRun] Would bet $${order.size} on ${order.direction} "${order.market.question.slice(0, 50)}" at $${order.entryPrice.toFixed(2)}`
+    );
+    return { success: true };
+  }
+
+  async setExitRules(order: TradeOrder): Promise<void> {
+    console.log(`[DryRun] Would set SL $${order.stopLoss.toFixed(2)} / TP $${order.takeProfit.toFixed(2)}`);
+  }
+
+  async getPositions(): Promise<any[]> {
+    return [];
+  }
+}
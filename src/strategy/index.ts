@@ -1,3 +1,3 @@
 export { calculatePositionSize, calculateExitLevels, checkPortfolioConstraints, getConvictionLevel } from "./sizing.js";
 export { SanityChecker } from "./sanity-check.js";
-export { TradeExecutor } from "./executor.js";
+export { TradeExecutor, DryRunExecutor, type OrderExecutor } from "./executor.js";
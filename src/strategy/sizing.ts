@@ -84,27 +84,26 @@ export function checkPortfolioConstraints(
     return { allowed: false, reason: `Already have a position in this market` };
   }
 
+  // Outcomes of a negative-risk event are mutually exclusive — a second one hedges the first
+  const eventId = opportunity.market.negRisk ? opportunity.market.eventId : undefined;
+  if (eventId && portfolio.positions.some((p) => p.eventId === eventId)) {
+    return { allowed: false, reason: `Already have a position on another outcome of this event` };
+  }
+
   return { allowed: true };
 }
 
 /**
- * Calculate stop loss and take profit prices.
+ * Calculate stop loss and take profit prices on the outcome token bought.
+ * Every position is long its own token (NO and named outcomes included),
+ * so both levels read off that token's price the same way.
  */
 export function calculateExitLevels(
   entryPrice: number,
-  direction: "YES" | "NO",
   config: CampaignConfig
 ): { stopLoss: number; takeProfit: number } {
-  if (direction === "YES") {
-    return {
-      stopLoss: Math.max(0.01, entryPrice * (1 - config.stopLossPercent)),
-      takeProfit: Math.min(0.99, entryPrice * config.takeProfitMultiple),
-    };
-  } else {
-    // For NO positions, the logic is inverted
-    return {
-      stopLoss: Math.min(0.99, entryPrice * (1 + config.stopLossPercent)),
-      takeProfit: Math.max(0.01, entryPrice / config.takeProfitMultiple),
-    };
-  }
+  return {
+    stopLoss: Math.max(0.01, entryPrice * (1 - config.stopLossPercent)),
+    takeProfit: Math.min(0.99, entryPrice * config.takeProfitMultiple),
+  };
 }
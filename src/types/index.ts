@@ -1,11 +1,24 @@
 // ---- Raw Twitter Signal ----
 
+export interface MediaAttachment {
+  mediaKey: string;
+  type: "photo" | "video" | "animated_gif";
+  /** Full-size image URL (photos only) */
+  url?: string;
+  /** Still frame for videos and GIFs */
+  previewImageUrl?: string;
+  altText?: string;
+  width?: number;
+  height?: number;
+}
+
 export interface ConversationTweet {
   tweetId: string;
   text: string;
   authorHandle: string;
   authorFollowers: number;
   urls: string[];
+  media: MediaAttachment[];
   engagement: {
     likes: number;
     retweets: number;
@@ -25,6 +38,7 @@ export interface RawMention {
     accountAgeDays: number;
   };
   urls: string[];
+  media: MediaAttachment[];
   engagement: {
     likes: number;
     retweets: number;
@@ -39,6 +53,17 @@ export interface RawMention {
   quotedTweet?: ConversationTweet;
 }
 
+// ---- Linked Article ----
+
+export interface LinkPreview {
+  url: string;
+  domain: string;
+  title?: string;
+  publishedAt?: string;
+  /** Readable text excerpt, truncated */
+  excerpt: string;
+}
+
 // ---- Enriched Signal ----
 
 export type SignalType =
@@ -52,6 +77,29 @@ export type SignalType =
 
 export type Urgency = "breaking" | "developing" | "slow";
 
+/** A number the claim hinges on, e.g. "BTC > $100k" → { value: 100000, unit: "USD", subject: "BTC price", comparator: ">" } */
+export interface ClaimQuantity {
+  value: number;
+  /** "USD", "%", "bps", "BTC", "seats", ... */
+  unit: string;
+  subject: string;
+  comparator?: ">" | ">=" | "<" | "<=" | "=";
+}
+
+export interface ClaimDate {
+  /** YYYY-MM-DD */
+  date: string;
+  /** "deadline" = the claim is about something happening by this date */
+  kind: "event" | "deadline";
+  description: string;
+}
+
+/** Which outcome the claim argues for or against, in the contributor's words */
+export interface ClaimStance {
+  outcome: string;
+  direction: "supports" | "contradicts";
+}
+
 export interface EnrichedSignal {
   id: string;
   raw: RawMention;
@@ -59,9 +107,22 @@ export interface EnrichedSignal {
   coreClaim: string;
   urgency: Urgency;
   topics: string[];
+  /** People, organizations, countries and events named in the claim */
+  entities: string[];
+  /** Tickers and assets, uppercase: BTC, ETH, SPX, NVDA */
+  assets: string[];
+  quantities: ClaimQuantity[];
+  dates: ClaimDate[];
+  stance: ClaimStance | null;
   corroboration: string[];
+  /** Markets the contributor linked directly (polymarket.com URLs) */
+  linkedMarkets: PolymarketMarket[];
+  /** Names of prompt-injection patterns found in the user-authored content */
+  injectionFlags: string[];
   weight: number;
   processedAt: Date;
+  /** Ids of copy-paste / same-thread signals folded into this one by dedup */
+  duplicates?: string[];
 }
 
 // ---- Topic Cluster ----
@@ -76,10 +137,46 @@ export interface TopicCluster {
     direction: string;
     confidence: number;
   };
+  /** Every sentiment reading since the cluster was first seen, oldest first */
+  sentimentHistory: SentimentPoint[];
+  /** Pace of the narrative across all of its persisted signals, not just the window */
+  velocity: ClusterVelocity;
   firstSeenAt: Date;
   lastUpdatedAt: Date;
 }
 
+export interface ClusterVelocity {
+  /** Signals per hour over the last rate window */
+  signalsPerHour: number;
+  /** Change in signals per hour from the previous rate window, per hour */
+  acceleration: number;
+  /** Contributors in the last rate window who hadn't flagged this narrative before */
+  newContributors: number;
+  contributors: number;
+  firstFlaggedAt: Date;
+  hoursSinceFirstFlag: number;
+  /** When the narrative first drew a trending rate of signals, if it has */
+  trendingAt?: Date;
+  /** Handles that flagged it before it trended (everyone so far if it hasn't) */
+  earlyContributors: string[];
+}
+
+/** When a signal was posted and by whom */
+export interface SignalActivity {
+  signalId: string;
+  userId: string;
+  handle: string;
+  at: Date;
+}
+
+export interface SentimentPoint {
+  at: Date;
+  direction: string;
+  confidence: number;
+}
+
+export type ClusterEventKind = "created" | "merged" | "split";
+
 // ---- Polymarket Market ----
 
 export interface PolymarketMarket {
@@ -92,6 +189,49 @@ export interface PolymarketMarket {
   liquidity: number;
   endDate: string;
   active: boolean;
+  /** Resolution rules, as written by Polymarket */
+  description?: string;
+  /** CLOB token ids, one per outcome, in the same order */
+  tokenIds?: string[];
+  /** The event the market belongs to; set for markets read from the catalog */
+  eventId?: string;
+  eventSlug?: string;
+  eventTitle?: string;
+  /** What the market stands for within a multi-market event ("Trump", "December") */
+  outcomeName?: string;
+  category?: string;
+  tags?: string[];
+  /** Part of a negative-risk event: one winner among the event's mutually exclusive markets */
+  negRisk?: boolean;
+  closed?: boolean;
+  /** When Polymarket last changed the market */
+  updatedAt?: string;
+}
+
+/** A Polymarket event: one question page grouping one or more markets */
+export interface PolymarketEvent {
+  id: string;
+  slug: string;
+  title: string;
+  category?: string;
+  tags: string[];
+  endDate: string;
+  negRisk: boolean;
+  volume: number;
+  liquidity: number;
+  closed: boolean;
+  /** When Polymarket last changed the event */
+  updatedAt?: string;
+}
+
+/** One tradable outcome token of a market */
+export interface MarketOutcome {
+  /** As Polymarket labels it: "Yes", "No", or a name such as "Lakers" */
+  label: string;
+  /** Position in the market's outcomes, outcomePrices and tokenIds */
+  index: number;
+  price: number;
+  tokenId?: string;
 }
 
 // ---- Edge Opportunity ----
@@ -99,12 +239,40 @@ export interface PolymarketMarket {
 export interface EdgeOpportunity {
   cluster: TopicCluster;
   market: PolymarketMarket;
-  direction: "YES" | "NO";
+  /** The outcome bought: "YES" or "NO" on a binary market, otherwise the outcome's label */
+  direction: string;
+  outcome: MarketOutcome;
+  /** Probability of that outcome, normalized across its event's mutually exclusive outcomes */
   signalImpliedProbability: number;
   currentMarketPrice: number;
   priceDiscrepancy: number;
   edgeScore: number;
   reasoningChain: string;
+  /** Where the cluster's signals stand on the outcome bought */
+  stance: StanceTally;
+}
+
+export interface StanceSide {
+  signals: number;
+  /** Signal weight scaled by each contributor's reliability */
+  weight: number;
+}
+
+export interface StanceTally {
+  /** The outcome the tally is taken on ("YES", "Trump") */
+  outcome: string;
+  /** Signals that make the outcome more likely */
+  backing: StanceSide;
+  /** Signals that make it less likely */
+  opposing: StanceSide;
+  /** Signals that take neither side */
+  neutral: number;
+  /** Share of the stance weight behind the outcome; 0.5 when nobody takes a side */
+  backingShare: number;
+  /** 0 when every stance agrees, 1 for an even split by weight */
+  disagreement: number;
+  /** "8 back YES vs 5 against" */
+  summary: string;
 }
 
 // ---- Trade Decision ----
@@ -114,7 +282,9 @@ export type TradeDecision = "TRADE" | "PASS" | "WATCH";
 export interface TradeOrder {
   decision: TradeDecision;
   market: PolymarketMarket;
-  direction: "YES" | "NO";
+  direction: string;
+  /** The outcome token bought; set on every order the sanity check returns */
+  outcome?: MarketOutcome;
   size: number;
   entryPrice: number;
   stopLoss: number;
@@ -122,6 +292,10 @@ export interface TradeOrder {
   edgeScore: number;
   reasoning: string;
   contributingSignals: EnrichedSignal[];
+  /** Stable id of the topic cluster behind the decision */
+  clusterId?: string;
+  /** Pace of that cluster when the decision was made */
+  velocity?: ClusterVelocity;
   watchCondition?: string;
   passReason?: string;
 }
@@ -131,7 +305,10 @@ export interface TradeOrder {
 export interface Position {
   marketId: string;
   marketQuestion: string;
-  direction: "YES" | "NO";
+  direction: string;
+  /** Set for positions in a multi-market event */
+  eventId?: string;
+  tokenId?: string;
   entryPrice: number;
   currentPrice: number;
   size: number;
@@ -168,6 +345,26 @@ export interface Contributor {
   bestSignal?: string;
 }
 
+// ---- LLM Stages ----
+
+/** Each pipeline step that calls the model */
+export type LLMStage = "enrichment" | "enrichment_batch" | "clustering" | "edge_scoring" | "sanity_check";
+
+export interface LLMStageConfig {
+  model: string;
+  maxTokens: number;
+  /** How long an identical request can be answered from the response cache (0 = never) */
+  cacheTtlSeconds: number;
+}
+
+export interface LLMUsageTotals {
+  calls: number;
+  cachedCalls: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+}
+
 // ---- Campaign Config ----
 
 export interface CampaignConfig {
@@ -195,6 +392,20 @@ export interface CampaignConfig {
   minAccountAgeDays: number; // 30
   minFollowers: number; // 50
   maxSignalsPerUserPerDay: number; // 5
+  enrichmentBatchSize: number; // 10 — mentions per enrichment call (1 = one call each)
+  commandCooldownMinutes: number; // 5 — per user; commands sent sooner are ignored
+
+  // Brigading defense
+  brigadeWatchScore: number; // 0.5 — flag and never TRADE above this
+  brigadePassScore: number; // 0.7 — PASS outright above this
+
+  // LLM
+  llm: Record<LLMStage, LLMStageConfig>;
+  llmDailyBudgetUsd: number; // 20 — spend past 80% / 90% / 100% degrades the pipeline; 0 = no cap
+
+  // Market catalog
+  catalogSyncMinutes: number; // 5 — incremental pass over recently changed markets
+  catalogFullSyncHours: number; // 6 — full pass over every open event, retiring what closed
 
   // Timing
   pollIntervalSeconds: number;
@@ -221,6 +432,25 @@ export const DEFAULT_CONFIG: CampaignConfig = {
   minAccountAgeDays: 30,
   minFollowers: 50,
   maxSignalsPerUserPerDay: 5,
+  enrichmentBatchSize: 10,
+  commandCooldownMinutes: 5,
+
+  brigadeWatchScore: 0.5,
+  brigadePassScore: 0.7,
+
+  llm: {
+    // Room for the full reply: entities, assets, quantities, dates and stance on top of the claim
+    enrichment: { model: "claude-sonnet-4-5-20250929", maxTokens: 1500, cacheTtlSeconds: 24 * 60 * 60 },
+    enrichment_batch: { model: "claude-sonnet-4-5-20250929", maxTokens: 4000, cacheTtlSeconds: 24 * 60 * 60 },
+    clustering: { model: "claude-sonnet-4-5-20250929", maxTokens: 1000, cacheTtlSeconds: 60 * 60 },
+    edge_scoring: { model: "claude-sonnet-4-5-20250929", maxTokens: 1000, cacheTtlSeconds: 15 * 60 },
+    // Always a fresh look before committing capital
+    sanity_check: { model: "claude-sonnet-4-5-20250929", maxTokens: 500, cacheTtlSeconds: 0 },
+  },
+  llmDailyBudgetUsd: 20,
+
+  catalogSyncMinutes: 5,
+  catalogFullSyncHours: 6,
 
   pollIntervalSeconds: 60,
 };
@@ -0,0 +1,53 @@
+/** Words too common to say two claims are about the same thing */
+const STOPWORDS = new Set([
+  "the", "and", "for", "that", "this", "with", "from", "are", "was", "will", "has", "have",
+  "been", "its", "his", "her", "their", "into", "over", "after", "about", "than", "more",
+  "says", "said", "could", "would", "may", "might", "now", "new", "not", "but",
+]);
+
+/**
+ * Lowercase, drop URLs, @handles and punctuation, and split into words.
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/https?:\/\/\S+/g, " ")
+    .replace(/@\w+/g, " ")
+    .replace(/[^\p{L}\p{N}$%.\s]/gu, " ")
+    .replace(/(?<!\d)\.|\.(?!\d)/g, " ")
+    .split(/\s+/)
+    .filter(Boolean);
+}
+
+/**
+ * The words of a text that say what it's about: tokens longer than two
+ * characters, minus stopwords.
+ */
+export function contentWords(text: string): string[] {
+  return tokenize(text).filter((w) => w.length > 2 && !STOPWORDS.has(w));
+}
+
+/**
+ * Word n-grams ("shingles") of a token list. Short texts fall back to
+ * single words so they still compare meaningfully.
+ */
+export function shingles(tokens: string[], size = 3): Set<string> {
+  if (tokens.length < size) return new Set(tokens);
+  const out = new Set<string>();
+  for (let i = 0; i <= tokens.length - size; i++) {
+    out.add(tokens.slice(i, i + size).join(" "));
+  }
+  return out;
+}
+
+/**
+ * Jaccard similarity of two sets: |A ∩ B| / |A ∪ B|, 0 when both are empty.
+ */
+export function jaccard<T>(a: Set<T>, b: Set<T>): number {
+  if (a.size === 0 && b.size === 0) return 0;
+  let intersection = 0;
+  for (const x of a) {
+    if (b.has(x)) intersection++;
+  }
+  return intersection / (a.size + b.size - intersection);
+}
@@ -1,17 +1,62 @@
-/**
- * Calculate engagement weight for a signal.
- * weight = 1 + log2(1 + likes + 2*retweets + 3*quoteTweets)
- */
-export function engagementWeight(engagement: {
+import type { RawMention, Contributor } from "../types/index.js";
+
+/** Weight multiplier for signals carrying instruction-like payloads */
+const INJECTION_WEIGHT_PENALTY = 0.25;
+
+/** Pseudo-trades (one good, one bad) every contributor starts with, so one lucky call doesn't count double */
+const RELIABILITY_PRIOR_TRADES = 2;
+
+interface Engagement {
   likes: number;
   retweets: number;
   quoteTweets: number;
-}): number {
+}
+
+/**
+ * Calculate engagement weight for a signal.
+ * weight = 1 + log2(1 + likes + 2*retweets + 3*quoteTweets) + log2(1 + corroborations)
+ *
+ * Each independent source backing the same claim adds less than the one
+ * before it, so a claim seen by 3 sources counts +2, not +3.
+ */
+export function engagementWeight(engagement: Engagement, corroborations = 0): number {
   const raw =
     engagement.likes +
     2 * engagement.retweets +
     3 * engagement.quoteTweets;
-  return 1 + Math.log2(1 + raw);
+  return 1 + Math.log2(1 + raw) + Math.log2(1 + corroborations);
+}
+
+/**
+ * Full weight of a signal. Engagement comes from the tagging tweet AND the
+ * tweet it points at — if someone replies to a viral tweet, the parent's
+ * engagement matters — using whichever source is strongest.
+ */
+export function signalWeight(
+  mention: RawMention,
+  options: { injectionFlagged: boolean; corroborations: number }
+): number {
+  const parentEngagement = mention.conversationContext.length > 0
+    ? mention.conversationContext[mention.conversationContext.length - 1].engagement
+    : undefined;
+  const quotedEngagement = mention.quotedTweet?.engagement;
+
+  const engagementSources = [
+    mention.engagement,
+    parentEngagement,
+    quotedEngagement,
+  ].filter(Boolean) as Engagement[];
+
+  const bestEngagement = engagementSources.reduce((best, e) => {
+    const score = e.likes + 2 * e.retweets + 3 * (e.quoteTweets || 0);
+    const bestScore = best.likes + 2 * best.retweets + 3 * (best.quoteTweets || 0);
+    return score > bestScore ? e : best;
+  });
+
+  return (
+    engagementWeight(bestEngagement, options.corroborations) *
+    (options.injectionFlagged ? INJECTION_WEIGHT_PENALTY : 1)
+  );
 }
 
 /**
@@ -24,3 +69,17 @@ export function recencyMultiplier(signalTime: Date, now: Date = new Date()): num
   if (hoursAgo <= 24) return 2.0 - (hoursAgo - 2) / 22; // linear 2.0 → 1.0
   return 0.5;
 }
+
+/**
+ * How much to trust a contributor's read, from their track record: the
+ * smoothed share of their traded signals that paid off, scaled so an
+ * unknown contributor counts 1.0 and a perfect record approaches 2.0.
+ */
+export function contributorReliability(
+  contributor?: Pick<Contributor, "signalsThatLedToTrades" | "profitableContributions">
+): number {
+  if (!contributor) return 1;
+  const hits = contributor.profitableContributions + RELIABILITY_PRIOR_TRADES / 2;
+  const trades = contributor.signalsThatLedToTrades + RELIABILITY_PRIOR_TRADES;
+  return 2 * (hits / trades);
+}
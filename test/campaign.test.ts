@@ -0,0 +1,263 @@
+import path from "path";
+import { fileURLToPath } from "url";
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { Campaign } from "../src/campaign.js";
+import { ReplaySource } from "../src/ingestion/replay.js";
+import { LinkResolver, fixtureFetcher } from "../src/ingestion/links.js";
+import { DryRunExecutor } from "../src/strategy/executor.js";
+import { ScriptedLLMClient, type LLMRequest } from "../src/llm/index.js";
+import type { PolymarketApi } from "../src/sensemaking/polymarket.js";
+import type { SignalSource } from "../src/ingestion/source.js";
+import type { TwitterClient } from "../src/ingestion/twitter.js";
+import { getOpenTrades, getRecentSignals, getLLMSpendToday, setState } from "../src/store/index.js";
+import { DEFAULT_CONFIG, type CampaignConfig, type PolymarketMarket } from "../src/types/index.js";
+import { makeMention } from "./helpers.js";
+
+const FIXTURE = path.join(path.dirname(fileURLToPath(import.meta.url)), "fixtures/mentions.jsonl");
+
+const FED_MARKET: PolymarketMarket = {
+  conditionId: "0xfedcut",
+  slug: "fed-cut-march-2026",
+  question: "Will the Fed cut rates at the March 2026 meeting?",
+  outcomes: ["Yes", "No"],
+  outcomePrices: [0.55, 0.45],
+  tokenIds: ["tok-yes", "tok-no"],
+  volume: 2_000_000,
+  liquidity: 300_000,
+  endDate: "2026-03-19T00:00:00Z",
+  active: true,
+  closed: false,
+  tags: ["Fed"],
+};
+
+/** Serves one market and fails loudly on anything the tick shouldn't need */
+const offlineApi: PolymarketApi = {
+  fetchActiveMarkets: async () => [FED_MARKET],
+  fetchMarketBySlug: async () => null,
+  fetchEventMarkets: async () => [],
+  fetchEventsPage: async () => {
+    throw new Error("catalog sync during a tick");
+  },
+  fetchUpdatedMarketsPage: async () => {
+    throw new Error("catalog sync during a tick");
+  },
+};
+
+const config: CampaignConfig = { ...DEFAULT_CONFIG, minSignalsToAct: 3, minEdgeScore: 0 };
+
+/** Each fixture mention's claim, all backing a March cut */
+const CLAIMS: Record<string, string> = {
+  "1001": "Soft 2.6% CPI print makes a Fed cut next week very likely",
+  "1002": "Fed funds futures price a 25bps March cut at 85%",
+  "1003": "Waller and another Fed speaker opened the door to cutting in March",
+  "1004": "Powell's press conference moved to Wednesday with the market expecting a cut",
+};
+
+/** One result per mention in the batch */
+function enrichAll(request: LLMRequest) {
+  const ids = [...JSON.stringify(request.messages).matchAll(/=== MENTION (\S+) ===/g)].map((m) => m[1]);
+  return {
+    results: ids.map((id) => ({
+      tweet_id: id,
+      signal_type: "news",
+      core_claim: CLAIMS[id] ?? `Fed officials signal a cut, per mention ${id}`,
+      urgency: "breaking",
+      topics: ["Fed policy"],
+      entities: ["Federal Reserve"],
+      stance: { outcome: "Fed cuts rates in March 2026", direction: "supports" },
+      is_noise: false,
+    })),
+  };
+}
+
+/** Every candidate group goes into one new cluster */
+function clusterAll(request: LLMRequest) {
+  const groups = [...new Set(JSON.stringify(request.messages).match(/G\d+/g) ?? [])];
+  return {
+    assignments: groups.map((group) => ({ group, cluster: "N0" })),
+    new_clusters: [
+      { key: "N0", name: "Fed March cut priced in", sentiment_direction: "dovish", sentiment_confidence: 0.9 },
+    ],
+  };
+}
+
+describe("Campaign.tick", () => {
+  beforeEach(() => {
+    // Mentions one test's campaign held for budget would otherwise reach the next
+    setState("campaign_held_mentions", "[]");
+    vi.stubGlobal("fetch", vi.fn(async () => {
+      throw new Error("network access in an offline tick");
+    }));
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("runs a replay from mentions to a dry-run trade without touching the network", async () => {
+    const llm = new ScriptedLLMClient({
+      enrichment_batch: [enrichAll],
+      clustering: [clusterAll],
+      edge_scoring: [
+        {
+          mappings: [
+            {
+              market_index: 0,
+              outcome: "Yes",
+              signal_implied_probability: 0.8,
+              reasoning: "Soft CPI, futures and Fed speakers all point to a March cut",
+              for_signals: [0, 1, 2, 3],
+            },
+          ],
+        },
+      ],
+      sanity_check: [{ decision: "TRADE", reasoning: "Independent sources agree and the market lags", theme: "Fed" }],
+    });
+    const executor = new DryRunExecutor();
+    const placeBet = vi.spyOn(executor, "placeBet");
+
+    const campaign = new Campaign({
+      source: new ReplaySource({ filePath: FIXTURE, speed: Infinity }),
+      llm,
+      executor,
+      config,
+      linkResolver: new LinkResolver({ fetcher: fixtureFetcher({}) }),
+      polymarket: offlineApi,
+    });
+    await campaign.tick();
+
+    expect(getRecentSignals(24)).toHaveLength(4);
+    expect(placeBet).toHaveBeenCalledTimes(1);
+    expect(placeBet.mock.calls[0][0]).toMatchObject({
+      decision: "TRADE",
+      direction: "YES",
+      outcome: { label: "Yes", tokenId: "tok-yes" },
+    });
+
+    const trades = getOpenTrades();
+    expect(trades).toHaveLength(1);
+    expect(trades[0]).toMatchObject({ market_id: "0xfedcut", direction: "YES" });
+
+    expect(fetch).not.toHaveBeenCalled();
+    expect(llm.calls.map((c) => c.stage)).toEqual(["enrichment_batch", "clustering", "edge_scoring", "sanity_check"]);
+  });
+
+  it("commits the source cursor only once the batch's signals are stored", async () => {
+    const mentions = [makeMention(), makeMention()];
+    const storedAtCommit: string[] = [];
+    const source: SignalSource = {
+      fetchMentions: async () => ({ mentions, cursor: "cursor-1" }),
+      commitCursor: vi.fn(() => {
+        storedAtCommit.push(...getRecentSignals(24).map((s) => s.raw.tweetId));
+      }),
+    };
+
+    const campaign = new Campaign({
+      source,
+      llm: new ScriptedLLMClient({ enrichment_batch: [enrichAll] }, { fallback: {} }),
+      executor: new DryRunExecutor(),
+      config,
+      linkResolver: new LinkResolver({ fetcher: fixtureFetcher({}) }),
+      polymarket: offlineApi,
+    });
+    await campaign.tick();
+
+    expect(source.commitCursor).toHaveBeenCalledWith("cursor-1");
+    expect(storedAtCommit).toEqual(expect.arrayContaining(mentions.map((m) => m.tweetId)));
+  });
+
+  it("stops enriching at the budget cap and holds the rest of the batch", async () => {
+    const mentions = [makeMention(), makeMention(), makeMention(), makeMention()];
+    const llm = new ScriptedLLMClient({}, { fallback: enrichAll });
+    const campaign = new Campaign({
+      source: { fetchMentions: async () => ({ mentions }) },
+      llm,
+      executor: new DryRunExecutor(),
+      // Enrichment stops at 90% of the budget, which one two-mention batch crosses
+      config: { ...config, enrichmentBatchSize: 2, llmDailyBudgetUsd: (getLLMSpendToday() + 0.003) / 0.9 },
+      linkResolver: new LinkResolver({ fetcher: fixtureFetcher({}) }),
+      polymarket: offlineApi,
+    });
+    await campaign.tick();
+
+    expect(llm.calls.filter((c) => c.stage === "enrichment_batch")).toHaveLength(1);
+    const stored = new Set(getRecentSignals(24).map((s) => s.raw.tweetId));
+    expect(mentions.filter((m) => stored.has(m.tweetId))).toHaveLength(2);
+  });
+
+  it("enriches mentions held for budget after a restart", async () => {
+    const mentions = [makeMention(), makeMention(), makeMention(), makeMention()];
+    const stored = () => new Set(getRecentSignals(24).map((s) => s.raw.tweetId));
+    const deps = {
+      llm: new ScriptedLLMClient({}, { fallback: enrichAll }),
+      executor: new DryRunExecutor(),
+      linkResolver: new LinkResolver({ fetcher: fixtureFetcher({}) }),
+      polymarket: offlineApi,
+    };
+    const before = new Campaign({
+      ...deps,
+      source: { fetchMentions: async () => ({ mentions, cursor: "cursor-1" }), commitCursor: vi.fn() },
+      config: { ...config, enrichmentBatchSize: 2, llmDailyBudgetUsd: (getLLMSpendToday() + 0.003) / 0.9 },
+    });
+    await before.tick();
+    expect(mentions.filter((m) => stored().has(m.tweetId))).toHaveLength(2);
+
+    // A fresh process, past the cursor, with budget to spare
+    const after = new Campaign({
+      ...deps,
+      source: { fetchMentions: async () => ({ mentions: [] }) },
+      config: { ...config, enrichmentBatchSize: 2, llmDailyBudgetUsd: 1000 },
+    });
+    await after.tick();
+    expect(mentions.filter((m) => stored().has(m.tweetId))).toHaveLength(4);
+  });
+
+  it("holds the batch while the model API is failing", async () => {
+    const mentions = [makeMention(), makeMention()];
+    const overloaded = () => {
+      throw new Error("529 overloaded_error");
+    };
+    const llm = new ScriptedLLMClient({ enrichment_batch: [overloaded, enrichAll] }, { fallback: {} });
+    const batches = [mentions, []];
+    const campaign = new Campaign({
+      source: { fetchMentions: async () => ({ mentions: batches.shift() ?? [] }) },
+      llm,
+      executor: new DryRunExecutor(),
+      config,
+      linkResolver: new LinkResolver({ fetcher: fixtureFetcher({}) }),
+      polymarket: offlineApi,
+    });
+    const stored = () => new Set(getRecentSignals(24).map((s) => s.raw.tweetId));
+
+    await campaign.tick();
+    expect(llm.calls.filter((c) => c.stage.startsWith("enrichment"))).toHaveLength(1);
+    expect(mentions.filter((m) => stored().has(m.tweetId))).toHaveLength(0);
+
+    await campaign.tick();
+    expect(mentions.filter((m) => stored().has(m.tweetId))).toHaveLength(2);
+  });
+
+  it("answers one command per user per cooldown", async () => {
+    const batches = [
+      [makeMention({ text: "@VincentPlays !status", user: { id: "spammer" } })],
+      [makeMention({ text: "@VincentPlays !portfolio", user: { id: "spammer" } })],
+      [makeMention({ text: "@VincentPlays !status", user: { id: "someone-else" } })],
+    ];
+    const [first, , third] = batches.map(([m]) => m.tweetId);
+    const twitter = { postThread: vi.fn(async (_tweets: string[], _inReplyToId?: string) => {}) };
+    const campaign = new Campaign({
+      source: { fetchMentions: async () => ({ mentions: batches.shift() ?? [] }) },
+      twitter: twitter as unknown as TwitterClient,
+      llm: new ScriptedLLMClient({}, { fallback: {} }),
+      executor: new DryRunExecutor(),
+      config,
+      linkResolver: new LinkResolver({ fetcher: fixtureFetcher({}) }),
+      polymarket: offlineApi,
+    });
+    await campaign.tick();
+    await campaign.tick();
+    await campaign.tick();
+
+    expect(twitter.postThread.mock.calls.map(([, inReplyToId]) => inReplyToId)).toEqual([first, third]);
+  });
+});
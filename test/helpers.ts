@@ -0,0 +1,48 @@
+import type { RawMention, EnrichedSignal } from "../src/types/index.js";
+
+let nextId = 1;
+
+/**
+ * A mention with plausible defaults; override whatever the test is about.
+ */
+export function makeMention(overrides: Partial<RawMention> & { user?: Partial<RawMention["user"]> } = {}): RawMention {
+  const id = String(nextId++);
+  const { user, ...rest } = overrides;
+  return {
+    tweetId: `t${id}`,
+    text: `@VincentPlays signal ${id}`,
+    urls: [],
+    media: [],
+    engagement: { likes: 10, retweets: 2, replies: 1, quoteTweets: 0 },
+    timestamp: new Date(),
+    conversationContext: [],
+    ...rest,
+    user: { id: `u${id}`, handle: `user${id}`, followers: 1000, accountAgeDays: 1000, ...user },
+  };
+}
+
+/**
+ * An enriched signal around a mention, with the claim fields defaulted.
+ */
+export function makeSignal(overrides: Partial<EnrichedSignal> = {}): EnrichedSignal {
+  const raw = overrides.raw ?? makeMention();
+  return {
+    id: `sig_${raw.tweetId}`,
+    raw,
+    signalType: "news",
+    coreClaim: raw.text.replace(/@\w+\s*/g, ""),
+    urgency: "developing",
+    topics: [],
+    entities: [],
+    assets: [],
+    quantities: [],
+    dates: [],
+    stance: null,
+    corroboration: [],
+    linkedMarkets: [],
+    injectionFlags: [],
+    weight: 1,
+    processedAt: new Date(),
+    ...overrides,
+  };
+}
@@ -0,0 +1,64 @@
+import { describe, it, expect } from "vitest";
+import { parseCommand, partitionCommands } from "../../src/ingestion/commands.js";
+import { ContentComposer } from "../../src/content/composer.js";
+import { findTradesByMarket, saveTrade } from "../../src/store/index.js";
+import type { PolymarketMarket, TradeOrder } from "../../src/types/index.js";
+import { makeMention } from "../helpers.js";
+
+const HANDLE = "VincentPlays";
+
+describe("parseCommand", () => {
+  it.each([
+    ["@VincentPlays !status", "status", ""],
+    ["@alice @VincentPlays !why fed cut @bob", "why", "fed cut"],
+    ["@vincentplays !PORTFOLIO", "portfolio", ""],
+  ])("parses %j", (text, name, args) => {
+    expect(parseCommand(makeMention({ text }), HANDLE)).toMatchObject({ name, args });
+  });
+
+  it.each([
+    "@VincentPlays CPI came in soft, !me thinks a cut is coming",
+    "Fed cut incoming @VincentPlays, reply !status if you agree",
+    "@VincentPlaysFan !status",
+    "@someone !status @VincentPlays",
+  ])("leaves %j as a signal", (text) => {
+    expect(parseCommand(makeMention({ text }), HANDLE)).toBeNull();
+  });
+
+  it("splits a batch into commands and signals", () => {
+    const command = makeMention({ text: "@VincentPlays !me" });
+    const signal = makeMention({ text: "@VincentPlays ETH ETF flows turned positive" });
+    const { commands, signals } = partitionCommands([command, signal], HANDLE);
+    expect(commands.map((c) => c.mention)).toEqual([command]);
+    expect(signals).toEqual([signal]);
+  });
+});
+
+describe("!why", () => {
+  it("replies with the usage when no market is given", () => {
+    const [reply] = new ContentComposer().composeWhyReply("", undefined);
+    expect(reply).toMatch(/^Usage: !why <market>/);
+  });
+
+  it("matches % and _ in the query literally", () => {
+    const market = { conditionId: "0xcpi", question: "Will CPI exceed 3% in May?" } as PolymarketMarket;
+    const order: TradeOrder = {
+      decision: "PASS",
+      market,
+      direction: "YES",
+      size: 0,
+      entryPrice: 0.4,
+      stopLoss: 0,
+      takeProfit: 0,
+      edgeScore: 0.1,
+      reasoning: "Edge too small",
+      contributingSignals: [],
+    };
+    saveTrade(order);
+
+    expect(findTradesByMarket("3% in")).toHaveLength(1);
+    expect(findTradesByMarket("%")).toHaveLength(1);
+    expect(findTradesByMarket("CPI_exceed")).toHaveLength(0);
+    expect(findTradesByMarket("3%_in")).toHaveLength(0);
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, it, expect } from "vitest";
+import { SignalEnricher } from "../../src/ingestion/enricher.js";
+import type { PolymarketApi } from "../../src/sensemaking/polymarket.js";
+import { ScriptedLLMClient } from "../../src/llm/index.js";
+import { DEFAULT_CONFIG, type ConversationTweet, type MediaAttachment } from "../../src/types/index.js";
+import { makeMention } from "../helpers.js";
+
+const noMarkets: PolymarketApi = {
+  fetchActiveMarkets: async () => [],
+  fetchMarketBySlug: async () => null,
+  fetchEventMarkets: async () => [],
+  fetchEventsPage: async () => ({ events: [], markets: [], fetched: 0 }),
+  fetchUpdatedMarketsPage: async () => [],
+};
+
+const photos = (prefix: string, count: number): MediaAttachment[] =>
+  Array.from({ length: count }, (_, i) => ({ mediaKey: `${prefix}${i}`, type: "photo", url: `https://img/${prefix}${i}` }));
+
+function tweet(handle: string, media: MediaAttachment[]): ConversationTweet {
+  return {
+    tweetId: handle,
+    text: `Chart from @${handle}`,
+    authorHandle: handle,
+    authorFollowers: 1000,
+    urls: [],
+    media,
+    engagement: { likes: 0, retweets: 0, replies: 0, quoteTweets: 0 },
+    timestamp: new Date(),
+  };
+}
+
+const REPLY = {
+  signal_type: "data",
+  core_claim: "CPI came in below expectations",
+  urgency: "breaking",
+  topics: ["inflation"],
+  entities: [],
+  is_noise: false,
+};
+
+describe("SignalEnricher.enrichBatch", () => {
+  const config = { ...DEFAULT_CONFIG, enrichmentBatchSize: 3 };
+  const mentions = () => [0, 1, 2].map(() => makeMention({ text: "@VincentPlays CPI just printed soft, cut odds up" }));
+
+  it("falls back to one call per mention when the batch reply is unusable", async () => {
+    const llm = new ScriptedLLMClient({ enrichment_batch: ["not json", "still not", "nope"] }, { fallback: REPLY });
+    const signals = await new SignalEnricher(llm, config, undefined, noMarkets).enrichBatch(mentions());
+
+    expect(signals).toHaveLength(3);
+    expect(llm.calls.filter((c) => c.stage === "enrichment")).toHaveLength(3);
+  });
+
+  it("throws an API error rather than retrying each mention alone", async () => {
+    const llm = new ScriptedLLMClient({}, {
+      fallback: () => {
+        throw new Error("529 overloaded_error");
+      },
+    });
+    await expect(new SignalEnricher(llm, config, undefined, noMarkets).enrichBatch(mentions())).rejects.toThrow(/overloaded/);
+    expect(llm.calls.map((c) => c.stage)).toEqual(["enrichment_batch"]);
+  });
+});
+
+describe("SignalEnricher images", () => {
+  it("keeps the tagging tweet's own images when the thread has more than fit", async () => {
+    const mention = makeMention({
+      text: "@VincentPlays look at this CPI chart",
+      media: photos("own", 2),
+      quotedTweet: tweet("quoted", photos("quoted", 2)),
+      conversationContext: [tweet("root", photos("root", 2)), tweet("parent", photos("parent", 2))],
+    });
+    const llm = new ScriptedLLMClient({ enrichment: [REPLY] });
+    await new SignalEnricher(llm, DEFAULT_CONFIG, undefined, noMarkets).enrichMention(mention);
+
+    const sent = JSON.stringify(llm.calls[0].messages).match(/https:\/\/img\/\w+/g);
+    expect(sent).toEqual(["https://img/own0", "https://img/own1", "https://img/quoted0", "https://img/quoted1"]);
+  });
+});
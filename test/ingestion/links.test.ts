@@ -0,0 +1,128 @@
+import path from "path";
+import { fileURLToPath } from "url";
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { LinkResolver, fixtureFetcher, httpFetcher, isPublicUrl, type PageFetcher } from "../../src/ingestion/links.js";
+import { makeMention } from "../helpers.js";
+
+const PAGES = path.join(path.dirname(fileURLToPath(import.meta.url)), "../fixtures/pages");
+const ARTICLE = "https://news.example.com/fed-march-cut";
+
+describe("LinkResolver", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+  });
+
+  it("unfurls a page into title, date, domain and excerpt", async () => {
+    const resolver = new LinkResolver({ fetcher: fixtureFetcher({ [ARTICLE]: path.join(PAGES, "fed-article.html") }) });
+    const preview = await resolver.resolve(ARTICLE);
+
+    expect(preview).toMatchObject({
+      url: ARTICLE,
+      domain: "news.example.com",
+      title: "Fed signals March cut as inflation cools",
+      publishedAt: "2026-03-17T13:45:00Z",
+    });
+    expect(preview!.excerpt).toContain("open to lowering rates");
+    expect(preview!.excerpt).toContain("85% chance of a 25 basis point cut & a small chance");
+    expect(preview!.excerpt).not.toContain("newsletter");
+    expect(preview!.excerpt).not.toContain("Copyright");
+  });
+
+  it("skips tweet and Polymarket links and dedupes across the context", async () => {
+    const fetcher = vi.fn<PageFetcher>(async () => null);
+    const resolver = new LinkResolver({ fetcher });
+    const mention = makeMention({
+      urls: ["https://x.com/someone/status/1", "https://polymarket.com/event/fed", "https://a.example.com/1"],
+      quotedTweet: {
+        tweetId: "q1",
+        text: "quoted",
+        authorHandle: "q",
+        authorFollowers: 1,
+        urls: ["https://a.example.com/1"],
+        media: [],
+        engagement: { likes: 0, retweets: 0, replies: 0, quoteTweets: 0 },
+        timestamp: new Date(),
+      },
+    });
+
+    await resolver.resolveMention(mention);
+    expect(fetcher.mock.calls.map(([url]) => url)).toEqual(["https://a.example.com/1"]);
+  });
+
+  it("caches definitive results for the full TTL", async () => {
+    const fetcher = vi.fn<PageFetcher>(async (url) => ({ url, status: 404, contentType: "text/html", body: "" }));
+    const resolver = new LinkResolver({ fetcher });
+
+    expect(await resolver.resolve("https://b.example.com/gone")).toBeNull();
+    expect(await resolver.resolve("https://b.example.com/gone")).toBeNull();
+    expect(fetcher).toHaveBeenCalledTimes(1);
+  });
+
+  it("keeps timeouts and server errors only for the short error TTL", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    const timeout = vi.fn<PageFetcher>(async () => {
+      throw new Error("timed out");
+    });
+    const serverError = vi.fn<PageFetcher>(async (url) => ({ url, status: 503, contentType: "text/html", body: "" }));
+
+    await new LinkResolver({ fetcher: timeout }).resolve("https://c.example.com/slow");
+    await new LinkResolver({ fetcher: timeout }).resolve("https://c.example.com/slow");
+    expect(timeout).toHaveBeenCalledTimes(1);
+    await new LinkResolver({ fetcher: timeout, errorCacheTtlMs: 0 }).resolve("https://c.example.com/slow");
+    expect(timeout).toHaveBeenCalledTimes(2);
+
+    await new LinkResolver({ fetcher: serverError }).resolve("https://c.example.com/down");
+    await new LinkResolver({ fetcher: serverError, errorCacheTtlMs: 0 }).resolve("https://c.example.com/down");
+    expect(serverError).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe("isPublicUrl", () => {
+  it.each([
+    "http://169.254.169.254/latest/meta-data/",
+    "http://10.1.2.3/",
+    "http://127.0.0.1:8080/",
+    "http://172.20.0.5/",
+    "http://192.168.1.1/",
+    "http://[::1]/",
+    "http://[fd00::1]/",
+    "http://[::ffff:127.0.0.1]/",
+    "http://localhost:19000/api/rules",
+    "file:///etc/passwd",
+  ])("refuses %s", async (url) => {
+    expect(await isPublicUrl(url)).toBe(false);
+  });
+
+  it("allows public addresses", async () => {
+    expect(await isPublicUrl("https://93.184.216.34/article")).toBe(true);
+  });
+});
+
+describe("httpFetcher", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+  });
+
+  it("checks every redirect hop and stops at a private one", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    const fetch = vi.fn(async () => new Response(null, { status: 302, headers: { location: "http://127.0.0.1:19000/" } }));
+    vi.stubGlobal("fetch", fetch);
+
+    expect(await httpFetcher(1024, 1000)("https://93.184.216.34/short")).toBeNull();
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("follows public redirects to the final page", async () => {
+    const fetch = vi.fn(async (url: string) =>
+      url.endsWith("/short")
+        ? new Response(null, { status: 301, headers: { location: "/long" } })
+        : new Response("<p>hello</p>", { status: 200, headers: { "content-type": "text/html" } })
+    );
+    vi.stubGlobal("fetch", fetch);
+
+    const page = await httpFetcher(1024, 1000)("https://93.184.216.34/short");
+    expect(page).toMatchObject({ url: "https://93.184.216.34/long", status: 200, body: "<p>hello</p>" });
+  });
+});
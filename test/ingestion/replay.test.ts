@@ -0,0 +1,71 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { fileURLToPath } from "url";
+import { describe, it, expect, afterEach, vi } from "vitest";
+import { ReplaySource, loadMentions } from "../../src/ingestion/replay.js";
+
+const FIXTURE = path.join(path.dirname(fileURLToPath(import.meta.url)), "../fixtures/mentions.jsonl");
+
+describe("ReplaySource", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("releases everything on the first poll at infinite speed, newest first", async () => {
+    const source = new ReplaySource({ filePath: FIXTURE, speed: Infinity, rebaseTimestamps: false });
+    const { mentions: batch } = await source.fetchMentions();
+
+    expect(batch.map((m) => m.tweetId)).toEqual(["1004", "1003", "1002", "1001"]);
+    expect(source.exhausted).toBe(true);
+    expect((await source.fetchMentions()).mentions).toEqual([]);
+  });
+
+  it("releases mentions on a virtual clock running `speed` times wall time", async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2026-06-01T00:00:00Z"));
+    // One recorded minute per wall second
+    const source = new ReplaySource({ filePath: FIXTURE, speed: 60 });
+
+    expect((await source.fetchMentions()).mentions.map((m) => m.tweetId)).toEqual(["1001"]);
+    vi.advanceTimersByTime(12_000);
+    expect((await source.fetchMentions()).mentions.map((m) => m.tweetId)).toEqual(["1003", "1002"]);
+    vi.advanceTimersByTime(17_000);
+    expect((await source.fetchMentions()).mentions).toEqual([]);
+    vi.advanceTimersByTime(1_000);
+    expect((await source.fetchMentions()).mentions.map((m) => m.tweetId)).toEqual(["1004"]);
+    expect(source.exhausted).toBe(true);
+  });
+
+  it("rebases timestamps onto the wall clock and keeps context gaps", async () => {
+    vi.useFakeTimers();
+    const now = new Date("2026-06-01T00:00:00Z");
+    vi.setSystemTime(now);
+    const source = new ReplaySource({ filePath: FIXTURE, speed: Infinity });
+    const reply = (await source.fetchMentions()).mentions.find((m) => m.tweetId === "1003")!;
+
+    expect(reply.timestamp.getTime()).toBe(now.getTime());
+    // The parent was posted 10 minutes before the reply
+    expect(reply.timestamp.getTime() - reply.conversationContext[0].timestamp.getTime()).toBe(10 * 60 * 1000);
+  });
+
+  it("is reproducible: two replays of one recording yield the same mentions", async () => {
+    const { mentions: first } = await new ReplaySource({ filePath: FIXTURE, speed: Infinity, rebaseTimestamps: false }).fetchMentions();
+    const { mentions: second } = await new ReplaySource({ filePath: FIXTURE, speed: Infinity, rebaseTimestamps: false }).fetchMentions();
+    expect(second).toEqual(first);
+  });
+});
+
+describe("loadMentions", () => {
+  it("revives dates and skips malformed lines", () => {
+    const file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "replay-")), "mentions.jsonl");
+    const [good] = fs.readFileSync(FIXTURE, "utf-8").split("\n");
+    fs.writeFileSync(file, `${good}\n{not json\n\n`);
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+
+    const mentions = loadMentions(file);
+    expect(mentions).toHaveLength(1);
+    expect(mentions[0].timestamp).toBeInstanceOf(Date);
+    expect(mentions[0].media).toEqual([]);
+  });
+});
@@ -0,0 +1,121 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { TwitterClient } from "../../src/ingestion/twitter.js";
+import { getState, setState } from "../../src/store/index.js";
+
+const CURSOR_KEY = "twitter_mentions_cursor";
+
+/**
+ * A mention timeline over numeric tweet ids, honouring since_id, until_id
+ * and pagination the way the v2 endpoint does (newest first, 100 a page).
+ */
+function fakeTimeline(ids: number[], replyTo: Record<number, string> = {}) {
+  return vi.fn(async (_userId: string, params: Record<string, any>) => {
+    const since = params.since_id ? Number(params.since_id) : -Infinity;
+    const until = params.until_id ? Number(params.until_id) : Infinity;
+    const inRange = ids.filter((id) => id > since && id < until).sort((a, b) => b - a);
+    const offset = params.pagination_token ? Number(params.pagination_token) : 0;
+    const page = inRange.slice(offset, offset + params.max_results);
+    return {
+      data: {
+        data: page.map((id) => ({
+          id: String(id),
+          text: `@VincentPlays mention ${id}`,
+          author_id: "u1",
+          ...(replyTo[id] ? { referenced_tweets: [{ type: "replied_to", id: replyTo[id] }] } : {}),
+        })),
+      },
+      includes: { users: [{ id: "u1", username: "macro_maya", public_metrics: { followers_count: 500 } }] },
+      meta: {
+        newest_id: page.length > 0 ? String(page[0]) : undefined,
+        oldest_id: page.length > 0 ? String(page[page.length - 1]) : undefined,
+        next_token: offset + page.length < inRange.length ? String(offset + page.length) : undefined,
+      },
+    };
+  });
+}
+
+/** A parent tweet lookup, as the single-tweet endpoint returns it */
+async function lookupParent(_path: string, _query: unknown, options: { params: { id: string } }) {
+  return {
+    data: {
+      data: { id: options.params.id, text: "Waller: open to cutting in March", author_id: "u9" },
+      includes: { users: [{ id: "u9", username: "fedwatch", public_metrics: { followers_count: 52000 } }] },
+    },
+  };
+}
+
+function clientOver(ids: number[], replyTo: Record<number, string> = {}): TwitterClient {
+  const twitter = new TwitterClient({ apiKey: "k", apiSecret: "s", accessToken: "t", accessSecret: "a", handle: "VincentPlays" });
+  (twitter as any).client = {
+    v2: { me: async () => ({ data: { id: "bot" } }), userMentionTimeline: fakeTimeline(ids, replyTo), get: lookupParent },
+  };
+  return twitter;
+}
+
+const range = (from: number, to: number) => Array.from({ length: to - from + 1 }, (_, i) => from + i);
+
+describe("TwitterClient polling", () => {
+  beforeEach(() => {
+    setState(CURSOR_KEY, "1000");
+  });
+
+  it("leaves the stored cursor alone until the batch is committed", async () => {
+    const twitter = clientOver(range(1001, 1005));
+
+    const first = await twitter.fetchMentions();
+    expect(first.mentions.map((m) => m.tweetId)).toEqual(["1005", "1004", "1003", "1002", "1001"]);
+    expect(getState(CURSOR_KEY)).toBe("1000");
+
+    // Not committed (say the process died before saving): the next poll re-reads the batch
+    const again = await twitter.fetchMentions();
+    expect(again.mentions).toHaveLength(5);
+
+    twitter.commitCursor(again.cursor!);
+    expect((await twitter.fetchMentions()).mentions).toEqual([]);
+  });
+
+  it("reads the stretch a truncated poll skipped before moving on", async () => {
+    const ids = range(1001, 2150);
+    const twitter = clientOver(ids);
+
+    // Ten pages of 100 cover 2150 down to 1151
+    const first = await twitter.fetchMentions();
+    expect(first.mentions).toHaveLength(1000);
+    expect(first.mentions.at(-1)!.tweetId).toBe("1151");
+    twitter.commitCursor(first.cursor!);
+
+    const second = await twitter.fetchMentions();
+    expect(second.mentions.map((m) => Number(m.tweetId))).toEqual(range(1001, 1150).reverse());
+    twitter.commitCursor(second.cursor!);
+
+    ids.push(2151);
+    const third = await twitter.fetchMentions();
+    expect(third.mentions.map((m) => m.tweetId)).toEqual(["2151"]);
+  });
+
+  it("resumes from a cursor stored as a bare tweet id", async () => {
+    setState(CURSOR_KEY, "1003");
+    const twitter = clientOver(range(1001, 1005));
+    expect((await twitter.fetchMentions()).mentions.map((m) => m.tweetId)).toEqual(["1005", "1004"]);
+  });
+
+  it("keeps replies deferred for lookup budget across a restart", async () => {
+    const before = clientOver(range(1001, 1002), { 1002: "900" });
+    // No tweet lookups left this window
+    (before as any).budget.record("tweet_lookup", { limit: 100, remaining: 0, reset: Date.now() / 1000 + 900 });
+
+    const first = await before.fetchMentions();
+    expect(first.mentions.map((m) => m.tweetId)).toEqual(["1001"]);
+    before.commitCursor(first.cursor!);
+
+    // A fresh process with its lookup budget back
+    const after = clientOver(range(1001, 1002), { 1002: "900" });
+    const second = await after.fetchMentions();
+    expect(second.mentions.map((m) => m.tweetId)).toEqual(["1002"]);
+    expect(second.mentions[0].conversationContext.map((t) => t.authorHandle)).toEqual(["fedwatch"]);
+    expect(second.mentions[0].timestamp).toBeInstanceOf(Date);
+    after.commitCursor(second.cursor!);
+
+    expect((await clientOver(range(1001, 1002)).fetchMentions()).mentions).toEqual([]);
+  });
+});
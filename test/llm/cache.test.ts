@@ -0,0 +1,74 @@
+import { describe, it, expect, afterEach, vi } from "vitest";
+import { CachingLLMClient, ScriptedLLMClient } from "../../src/llm/index.js";
+import { getDb } from "../../src/store/db.js";
+import { recordLLMUsage } from "../../src/store/index.js";
+import { DEFAULT_CONFIG } from "../../src/types/index.js";
+
+const HOUR = 60 * 60 * 1000;
+
+const request = (text: string) => ({
+  stage: "edge_scoring" as const,
+  system: "Map clusters to markets",
+  messages: [{ role: "user" as const, content: text }],
+});
+
+const cachedRows = () => (getDb().prepare(`SELECT COUNT(*) AS n FROM llm_cache`).get() as { n: number }).n;
+const usageRows = () => (getDb().prepare(`SELECT COUNT(*) AS n FROM llm_usage`).get() as { n: number }).n;
+
+describe("CachingLLMClient", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("answers a repeat request from the cache within the stage TTL", async () => {
+    const inner = new ScriptedLLMClient({}, { fallback: { mappings: [] } });
+    const client = new CachingLLMClient(inner, DEFAULT_CONFIG.llm);
+
+    await client.complete(request("cluster A"));
+    const again = await client.complete(request("cluster A"));
+
+    expect(again.cached).toBe(true);
+    expect(inner.calls).toHaveLength(1);
+  });
+
+  it("sweeps out expired responses while running, not only at startup", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(new Date("2026-03-17T00:00:00Z"));
+    getDb().prepare(`DELETE FROM llm_cache`).run();
+    const client = new CachingLLMClient(new ScriptedLLMClient({}, { fallback: { mappings: [] } }), DEFAULT_CONFIG.llm);
+
+    await client.complete(request("cluster A"));
+    await client.complete(request("cluster B"));
+    expect(cachedRows()).toBe(2);
+
+    // Edge scoring replies live 15 minutes; the hourly sweep removes both
+    vi.setSystemTime(new Date(Date.now() + HOUR));
+    await client.complete(request("cluster C"));
+    expect(cachedRows()).toBe(1);
+  });
+
+  it("drops usage records after 30 days on the same sweep", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(new Date("2026-03-01T00:00:00Z"));
+    getDb().prepare(`DELETE FROM llm_usage`).run();
+    const usage = {
+      stage: "enrichment" as const,
+      model: "scripted",
+      inputTokens: 100,
+      outputTokens: 50,
+      costUsd: 0.001,
+      cached: false,
+    };
+    recordLLMUsage(usage);
+    const client = new CachingLLMClient(new ScriptedLLMClient({}, { fallback: { mappings: [] } }), DEFAULT_CONFIG.llm);
+
+    vi.setSystemTime(new Date("2026-03-29T00:00:00Z"));
+    recordLLMUsage(usage);
+    await client.complete(request("cluster A"));
+    expect(usageRows()).toBe(2);
+
+    vi.setSystemTime(new Date("2026-04-01T00:00:00Z"));
+    await client.complete(request("cluster B"));
+    expect(usageRows()).toBe(1);
+  });
+});
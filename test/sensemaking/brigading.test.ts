@@ -0,0 +1,54 @@
+import { describe, it, expect } from "vitest";
+import { assessBrigading } from "../../src/sensemaking/brigading.js";
+import { updateContributor } from "../../src/store/index.js";
+import { makeMention, makeSignal } from "../helpers.js";
+
+const HOUR = 60 * 60 * 1000;
+
+/** Five signals within ten minutes, starting at `at` */
+function burst(at: Date, texts: string[], user: (i: number) => { accountAgeDays: number; followers: number }) {
+  return texts.map((text, i) =>
+    makeSignal({ raw: makeMention({ text, timestamp: new Date(at.getTime() + i * 2 * 60 * 1000), user: user(i) }) })
+  );
+}
+
+const ORGANIC_TEXTS = [
+  "@VincentPlays BREAKING: Fed cuts 50bps, first emergency move since 2020",
+  "@VincentPlays wow the Fed just slashed rates between meetings",
+  "@VincentPlays emergency rate cut confirmed on the Fed website, bonds ripping",
+  "@VincentPlays Powell statement out — 50 basis point cut effective immediately",
+  "@VincentPlays surprise FOMC action today, rates down half a point",
+];
+
+const BRIGADE_TEXTS = ORGANIC_TEXTS.map(() => "@VincentPlays Fed cutting 100bps tomorrow confirmed, insiders know, buy YES now");
+
+describe("assessBrigading", () => {
+  it("keeps breaking news from established accounts on a brand-new campaign below the watch score", () => {
+    const signals = burst(new Date(), ORGANIC_TEXTS, (i) => ({ accountAgeDays: 400 + i * 700, followers: 300 * 5 ** i }));
+    for (const s of signals) updateContributor(s);
+
+    const assessment = assessBrigading(signals);
+    expect(assessment.components.burst).toBe(1);
+    expect(assessment.components.newcomers).toBe(0);
+    expect(assessment.score).toBeLessThan(0.5);
+  });
+
+  it("counts newcomers once the campaign is old enough to have regulars", () => {
+    const start = new Date(Date.now() - 5 * 24 * HOUR);
+    for (const s of burst(start, ORGANIC_TEXTS, () => ({ accountAgeDays: 1000, followers: 1000 }))) updateContributor(s);
+
+    const signals = burst(new Date(), BRIGADE_TEXTS, () => ({ accountAgeDays: 12, followers: 40 }));
+    for (const s of signals) updateContributor(s);
+
+    const assessment = assessBrigading(signals);
+    expect(assessment.components.newcomers).toBe(1);
+    expect(assessment.score).toBeGreaterThanOrEqual(0.7);
+  });
+
+  it("flags a copy-paste burst from fresh accounts even on day one", () => {
+    const signals = burst(new Date(), BRIGADE_TEXTS, () => ({ accountAgeDays: 20, followers: 50 }));
+    const assessment = assessBrigading(signals);
+    expect(assessment.score).toBeGreaterThanOrEqual(0.5);
+    expect(assessment.reasons.length).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, it, expect, afterEach, vi } from "vitest";
+import { MarketCatalog } from "../../src/sensemaking/catalog.js";
+import type { PolymarketApi } from "../../src/sensemaking/polymarket.js";
+import { getOpenMarkets } from "../../src/store/index.js";
+import { DEFAULT_CONFIG, type PolymarketEvent, type PolymarketMarket } from "../../src/types/index.js";
+
+function event(id: string): { event: PolymarketEvent; market: PolymarketMarket } {
+  return {
+    event: {
+      id,
+      slug: `event-${id}`,
+      title: `Event ${id}`,
+      tags: [],
+      endDate: "2026-12-31",
+      negRisk: false,
+      volume: 1000,
+      liquidity: 100,
+      closed: false,
+    },
+    market: {
+      conditionId: `0x${id}`,
+      slug: `market-${id}`,
+      question: `Will event ${id} happen?`,
+      outcomes: ["Yes", "No"],
+      outcomePrices: [0.5, 0.5],
+      volume: 1000,
+      liquidity: 100,
+      endDate: "2026-12-31",
+      active: true,
+      closed: false,
+      eventId: id,
+    },
+  };
+}
+
+/** Serves `passes[n]` as the open events on the nth full pass, in one short page */
+function apiServing(passes: string[][]): PolymarketApi {
+  let pass = 0;
+  return {
+    fetchEventsPage: async () => {
+      const rows = (passes[pass++] ?? []).map(event);
+      return { events: rows.map((r) => r.event), markets: rows.map((r) => r.market), fetched: rows.length };
+    },
+    fetchUpdatedMarketsPage: async () => [],
+    fetchActiveMarkets: async () => [],
+    fetchMarketBySlug: async () => null,
+    fetchEventMarkets: async () => [],
+  };
+}
+
+describe("MarketCatalog.fullSync", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("retires a market only once two full passes in a row miss it", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(new Date("2026-03-17T00:00:00Z"));
+    // "b" slips between pages on the second pass and really closes before the third
+    const catalog = new MarketCatalog(DEFAULT_CONFIG, apiServing([["a", "b", "c"], ["a", "c"], ["a", "c"]]));
+    const open = () => getOpenMarkets().map((m) => m.conditionId).sort();
+
+    await catalog.fullSync();
+    expect(open()).toEqual(["0xa", "0xb", "0xc"]);
+
+    vi.setSystemTime(new Date("2026-03-17T06:00:00Z"));
+    await catalog.fullSync();
+    expect(open()).toEqual(["0xa", "0xb", "0xc"]);
+
+    vi.setSystemTime(new Date("2026-03-17T12:00:00Z"));
+    await catalog.fullSync();
+    expect(open()).toEqual(["0xa", "0xc"]);
+  });
+});
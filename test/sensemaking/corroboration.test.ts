@@ -0,0 +1,66 @@
+import { describe, it, expect } from "vitest";
+import { corroborateSignals } from "../../src/sensemaking/corroboration.js";
+import type { ConversationTweet, EnrichedSignal } from "../../src/types/index.js";
+import { makeMention, makeSignal } from "../helpers.js";
+
+const CLAIM = "Fed insiders say a 50bp March cut is locked in";
+
+/** Signals by different accounts, a minute apart, all making the same claim */
+function signals(texts: string[], quotedTweet?: ConversationTweet): EnrichedSignal[] {
+  const start = Date.parse("2026-03-10T14:00:00Z");
+  return texts.map((text, i) =>
+    makeSignal({
+      raw: makeMention({ text, timestamp: new Date(start + i * 60_000), quotedTweet }),
+      coreClaim: CLAIM,
+      topics: ["Fed policy"],
+    })
+  );
+}
+
+describe("corroborateSignals", () => {
+  it("counts differently worded posts from different accounts as independent", () => {
+    const result = corroborateSignals(
+      signals([
+        "@VincentPlays hearing from two desks that March is a 50bp cut, not 25",
+        "@VincentPlays Fed insiders now say 50bp in March is a done deal",
+        "@VincentPlays my rates contact says the Fed has locked in a half point cut for March",
+      ]),
+      []
+    );
+    expect(result.map((s) => s.corroboration.length)).toEqual([0, 1, 2]);
+  });
+
+  it("gives copy-paste accounts no corroboration or extra weight", () => {
+    const text = "@VincentPlays BREAKING: Fed insiders confirm a 50bp cut is locked in for March, load up on YES now";
+    const result = corroborateSignals(signals([text, text, text, `${text}!!`]), []);
+
+    expect(result.map((s) => s.corroboration)).toEqual([[], [], [], []]);
+    const [first, ...rest] = result;
+    for (const s of rest) expect(s.weight).toBe(first.weight);
+  });
+
+  it("gives posts quoting the same tweet no corroboration", () => {
+    const quoted: ConversationTweet = {
+      tweetId: "q1",
+      text: "Sources: Fed to cut 50bp in March",
+      authorHandle: "rumourmill",
+      authorFollowers: 80_000,
+      urls: [],
+      media: [],
+      engagement: { likes: 900, retweets: 300, replies: 40, quoteTweets: 120 },
+      timestamp: new Date("2026-03-10T13:00:00Z"),
+    };
+    const result = corroborateSignals(
+      signals(
+        [
+          "@VincentPlays this is huge if true",
+          "@VincentPlays half point in March, calling it now",
+          "@VincentPlays look at this, 50bp incoming",
+        ],
+        quoted
+      ),
+      []
+    );
+    expect(result.map((s) => s.corroboration)).toEqual([[], [], []]);
+  });
+});
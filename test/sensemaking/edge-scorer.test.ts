@@ -0,0 +1,127 @@
+import { describe, it, expect } from "vitest";
+import { EdgeScorer } from "../../src/sensemaking/edge-scorer.js";
+import type { PolymarketApi } from "../../src/sensemaking/polymarket.js";
+import { ScriptedLLMClient } from "../../src/llm/index.js";
+import type { PolymarketMarket, TopicCluster } from "../../src/types/index.js";
+import { makeMention, makeSignal } from "../helpers.js";
+
+function market(id: string, question: string): PolymarketMarket {
+  return {
+    conditionId: `0x${id}`,
+    slug: id,
+    question,
+    outcomes: ["Yes", "No"],
+    outcomePrices: [0.4, 0.6],
+    volume: 100_000,
+    liquidity: 10_000,
+    endDate: "2026-12-31",
+    active: true,
+    closed: false,
+  };
+}
+
+const LINKED = market("linked", "Will the Fed cut rates in March?");
+const SEARCHED = market("searched", "Will the Fed cut rates in 2026?");
+
+const api: PolymarketApi = {
+  fetchActiveMarkets: async () => [SEARCHED],
+  fetchMarketBySlug: async (slug) => (slug === LINKED.slug ? LINKED : null),
+  fetchEventMarkets: async () => [],
+  fetchEventsPage: async () => ({ events: [], markets: [], fetched: 0 }),
+  fetchUpdatedMarketsPage: async () => [],
+};
+
+function cluster(linkedMarkets: PolymarketMarket[] = [LINKED]): TopicCluster {
+  const signals = [0, 1, 2].map(() =>
+    makeSignal({
+      raw: makeMention({ text: "@VincentPlays Fed cut in March is coming" }),
+      urgency: "breaking",
+      linkedMarkets,
+    })
+  );
+  const now = new Date();
+  return {
+    id: "cl_fed",
+    name: "Fed March cut",
+    signals,
+    signalCount: signals.length,
+    avgEngagement: 10,
+    sentiment: { direction: "dovish", confidence: 0.8 },
+    sentimentHistory: [],
+    velocity: {
+      signalsPerHour: 1,
+      acceleration: 0,
+      newContributors: 0,
+      contributors: signals.length,
+      firstFlaggedAt: now,
+      hoursSinceFirstFlag: 1,
+      earlyContributors: [],
+    },
+    firstSeenAt: now,
+    lastUpdatedAt: now,
+  };
+}
+
+/** Linked markets come first, so the linked one is index 0 and the searched one index 1 */
+const mapping = (index: number, probability = 0.6) => ({
+  market_index: index,
+  outcome: "Yes",
+  signal_implied_probability: probability,
+  reasoning: "Signals point to a cut",
+});
+
+describe("EdgeScorer.findEdge", () => {
+  it("asks again for a linked market the model left unmapped", async () => {
+    const llm = new ScriptedLLMClient({ edge_scoring: [{ mappings: [mapping(1)] }, { mappings: [mapping(0)] }] });
+    const opportunities = await new EdgeScorer(llm, api).findEdge(cluster(), 10);
+
+    expect(llm.calls).toHaveLength(2);
+    expect(JSON.stringify(llm.calls[1].messages.at(-1))).toContain("Markets 0 were linked directly");
+    expect(opportunities.map((o) => o.market.conditionId).sort()).toEqual(["0xlinked", "0xsearched"]);
+  });
+
+  it("keeps the first answer when the follow-up still skips the linked market", async () => {
+    const llm = new ScriptedLLMClient({ edge_scoring: [{ mappings: [mapping(1)] }, { mappings: [mapping(1)] }] });
+    const opportunities = await new EdgeScorer(llm, api).findEdge(cluster(), 10);
+
+    expect(llm.calls).toHaveLength(2);
+    expect(opportunities.map((o) => o.market.conditionId)).toEqual(["0xsearched"]);
+  });
+
+  it("makes one call when every linked market is mapped", async () => {
+    const llm = new ScriptedLLMClient({ edge_scoring: [{ mappings: [mapping(0)] }] });
+    await new EdgeScorer(llm, api).findEdge(cluster(), 10);
+    expect(llm.calls).toHaveLength(1);
+  });
+});
+
+describe("EdgeScorer.findEdge on a multi-outcome event", () => {
+  /** One leg of a negative-risk event: "Will <name> be the next Fed chair?" */
+  function leg(name: string, yesPrice: number): PolymarketMarket {
+    return {
+      ...market(`chair-${name.toLowerCase()}`, `Will ${name} be the next Fed chair?`),
+      outcomePrices: [yesPrice, 1 - yesPrice],
+      tokenIds: [`${name}-yes`, `${name}-no`],
+      negRisk: true,
+      eventId: "fed-chair",
+      eventTitle: "Next Fed chair",
+      outcomeName: name,
+    };
+  }
+
+  it("rejects a leg that normalization pushes to or under its price", async () => {
+    const legs = [leg("Warsh", 0.5), leg("Hassett", 0.3), leg("Waller", 0.2)];
+    const eventApi: PolymarketApi = {
+      ...api,
+      fetchActiveMarkets: async () => [],
+      fetchMarketBySlug: async (slug) => legs.find((m) => m.slug === slug) ?? null,
+    };
+    // Stated 0.6 + 0.6 + 0.3 scale down to 0.4, 0.4 and 0.2: only Hassett stays above its price
+    const llm = new ScriptedLLMClient({ edge_scoring: [{ mappings: [mapping(0, 0.6), mapping(1, 0.6), mapping(2, 0.3)] }] });
+    const opportunities = await new EdgeScorer(llm, eventApi).findEdge(cluster(legs), 10);
+
+    expect(opportunities.map((o) => o.market.conditionId)).toEqual(["0xchair-hassett"]);
+    expect(opportunities[0].signalImpliedProbability).toBeGreaterThan(opportunities[0].currentMarketPrice);
+    expect(opportunities[0].priceDiscrepancy).toBeCloseTo(0.1);
+  });
+});
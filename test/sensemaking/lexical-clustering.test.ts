@@ -0,0 +1,81 @@
+import { describe, it, expect } from "vitest";
+import { groupSignals, cosine, type TermVector } from "../../src/sensemaking/lexical-clustering.js";
+import type { EnrichedSignal } from "../../src/types/index.js";
+import { makeSignal } from "../helpers.js";
+
+/** Deterministic pseudo-random numbers, so a failure reproduces */
+function seeded(seed: number) {
+  return () => {
+    seed = (seed * 1664525 + 1013904223) % 2 ** 32;
+    return seed / 2 ** 32;
+  };
+}
+
+/** Sparse random vectors over a small vocabulary, so most pairs overlap a little */
+function randomVectors(signals: EnrichedSignal[], random: () => number): Map<string, TermVector> {
+  const vectors = new Map<string, TermVector>();
+  for (const s of signals) {
+    const v: TermVector = new Map();
+    for (let t = 0; t < 4; t++) v.set(`w${Math.floor(random() * 12)}`, random());
+    let norm = 0;
+    for (const w of v.values()) norm += w * w;
+    for (const [term, w] of v) v.set(term, w / Math.sqrt(norm));
+    vectors.set(s.id, v);
+  }
+  return vectors;
+}
+
+/** Average linkage the slow way: recompute every pair's mean similarity on every join */
+function referenceGroups(signals: EnrichedSignal[], vectors: Map<string, TermVector>, threshold: number): string[][] {
+  const groups = signals.map((s) => [s]);
+  for (;;) {
+    let best = -Infinity;
+    let pair: [number, number] = [-1, -1];
+    for (let a = 0; a < groups.length; a++) {
+      for (let b = a + 1; b < groups.length; b++) {
+        let sum = 0;
+        for (const x of groups[a]) for (const y of groups[b]) sum += cosine(vectors.get(x.id)!, vectors.get(y.id)!);
+        const avg = sum / (groups[a].length * groups[b].length);
+        if (avg > best) {
+          best = avg;
+          pair = [a, b];
+        }
+      }
+    }
+    if (best < threshold) break;
+    groups[pair[0]].push(...groups[pair[1]]);
+    groups.splice(pair[1], 1);
+  }
+  return canonical(groups);
+}
+
+const canonical = (groups: EnrichedSignal[][]) => groups.map((g) => g.map((s) => s.id).sort()).sort();
+
+describe("groupSignals", () => {
+  it("groups signals by what they claim", () => {
+    const claims = [
+      "Fed cut in March is now priced in",
+      "Powell signals a March rate cut",
+      "Fed March rate cut odds jump",
+      "ETH ETF inflows hit a record",
+      "Record inflows into ETH ETF products",
+    ];
+    const signals = claims.map((coreClaim) => makeSignal({ coreClaim }));
+    const groups = groupSignals(signals);
+
+    expect(groups.map((g) => g.signals.map((s) => s.coreClaim).sort())).toEqual([
+      claims.slice(0, 3).sort(),
+      claims.slice(3).sort(),
+    ]);
+  });
+
+  it.each([0.2, 0.35, 0.5])("joins the same groups as exhaustive average linkage at %s", (threshold) => {
+    const random = seeded(Math.round(threshold * 1000));
+    const signals = Array.from({ length: 80 }, () => makeSignal());
+    const vectors = randomVectors(signals, random);
+
+    expect(canonical(groupSignals(signals, vectors, threshold).map((g) => g.signals))).toEqual(
+      referenceGroups(signals, vectors, threshold)
+    );
+  });
+});
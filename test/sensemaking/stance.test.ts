@@ -0,0 +1,67 @@
+import { describe, it, expect } from "vitest";
+import { tallyStances } from "../../src/sensemaking/stance.js";
+import { saveSignal, updateContributor, saveTrade, closeTrade, getContributor } from "../../src/store/index.js";
+import type { EnrichedSignal, PolymarketMarket, TradeOrder } from "../../src/types/index.js";
+import { makeMention, makeSignal } from "../helpers.js";
+
+const market = { conditionId: "0xcut", question: "Will the Fed cut in March?" } as PolymarketMarket;
+
+function signalFrom(userId: string): EnrichedSignal {
+  const signal = makeSignal({ raw: makeMention({ user: { id: userId } }) });
+  saveSignal(signal);
+  updateContributor(signal);
+  return signal;
+}
+
+/** Trade on one contributor's signal and close it at a gain or a loss */
+function tradeOn(signal: EnrichedSignal, pnl: number) {
+  const order: TradeOrder = {
+    decision: "TRADE",
+    market,
+    direction: "YES",
+    size: 100,
+    entryPrice: 0.5,
+    stopLoss: 0.35,
+    takeProfit: 0.9,
+    edgeScore: 0.6,
+    reasoning: "Signals point to a cut",
+    contributingSignals: [signal],
+  };
+  closeTrade(saveTrade(order, "0xtx"), pnl > 0 ? 0.9 : 0.35, pnl);
+}
+
+describe("tallyStances", () => {
+  it("weights a contributor with a losing record below one with a winning record", () => {
+    for (let i = 0; i < 3; i++) {
+      tradeOn(signalFrom("loser"), -40);
+      tradeOn(signalFrom("winner"), 80);
+    }
+    expect(getContributor("loser")).toMatchObject({ signalsThatLedToTrades: 3, profitableContributions: 0 });
+    expect(getContributor("winner")).toMatchObject({ signalsThatLedToTrades: 3, profitableContributions: 3 });
+
+    const backing = signalFrom("loser");
+    const opposing = signalFrom("winner");
+    const tally = tallyStances([backing, opposing], "Yes", new Set([backing.id]), new Set([opposing.id]));
+
+    expect(tally.backing.weight).toBeLessThan(backing.weight);
+    expect(tally.opposing.weight).toBeGreaterThan(opposing.weight);
+    expect(tally.backingShare).toBeLessThan(0.5);
+  });
+
+  it("counts nothing toward the record for a PASS", () => {
+    const signal = signalFrom("passed-on");
+    saveTrade({
+      decision: "PASS",
+      market,
+      direction: "YES",
+      size: 0,
+      entryPrice: 0.5,
+      stopLoss: 0,
+      takeProfit: 0,
+      edgeScore: 0.1,
+      reasoning: "Edge too small",
+      contributingSignals: [signal],
+    });
+    expect(getContributor("passed-on")?.signalsThatLedToTrades).toBe(0);
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { DryRunExecutor, TradeExecutor } from "../../src/strategy/executor.js";
+import type { TradeOrder } from "../../src/types/index.js";
+
+const order = {
+  decision: "TRADE",
+  market: { conditionId: "0xabc", question: "Will the Fed cut in March?" },
+  direction: "YES",
+  size: 200,
+  entryPrice: 0.42,
+  stopLoss: 0.29,
+  takeProfit: 0.84,
+  edgeScore: 0.7,
+  reasoning: "",
+  contributingSignals: [],
+} as unknown as TradeOrder;
+
+describe("DryRunExecutor", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it("accepts orders without any network call", async () => {
+    const fetch = vi.fn();
+    vi.stubGlobal("fetch", fetch);
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    const executor = new DryRunExecutor();
+
+    expect(await executor.placeBet(order)).toEqual({ success: true });
+    await executor.setExitRules(order);
+    expect(await executor.getPositions()).toEqual([]);
+    expect(fetch).not.toHaveBeenCalled();
+  });
+});
+
+describe("TradeExecutor.placeBet", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  function stubApi() {
+    const fetch = vi.fn(async () => new Response(JSON.stringify({ txHash: "0xtx" })));
+    vi.stubGlobal("fetch", fetch);
+    return fetch;
+  }
+
+  it("sends the direction on a binary market", async () => {
+    const fetch = stubApi();
+    const binary = {
+      ...order,
+      market: { ...order.market, outcomes: ["Yes", "No"] },
+      outcome: { index: 0, label: "Yes", tokenId: "tok-yes" },
+    } as TradeOrder;
+
+    expect(await new TradeExecutor("http://vincent", "key").placeBet(binary)).toEqual({ success: true, txHash: "0xtx" });
+    const body = JSON.parse((fetch.mock.calls[0] as unknown as [string, RequestInit])[1].body as string);
+    expect(body).toMatchObject({ marketId: "0xabc", tokenId: "tok-yes", outcome: "YES" });
+  });
+
+  it("refuses a multi-outcome order without a token id", async () => {
+    const fetch = stubApi();
+    const multi = {
+      ...order,
+      market: { ...order.market, outcomes: ["Warsh", "Hassett", "Other"] },
+      direction: "Warsh",
+      outcome: { index: 0, label: "Warsh" },
+    } as unknown as TradeOrder;
+
+    const result = await new TradeExecutor("http://vincent", "key").placeBet(multi);
+    expect(result.success).toBe(false);
+    expect(result.error).toMatch(/No token id/);
+    expect(fetch).not.toHaveBeenCalled();
+  });
+});
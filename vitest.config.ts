@@ -0,0 +1,9 @@
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  test: {
+    include: ["test/**/*.test.ts"],
+    // Each test file runs in its own worker, so each gets a fresh in-memory database
+    env: { DB_PATH: ":memory:" },
+  },
+});